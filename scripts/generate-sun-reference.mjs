@@ -0,0 +1,138 @@
+// Build src/data/sunReference.json: reference sunrise/sunset times for every
+// airport in src/data/airports.json, checked by `npm run verify:sun`.
+//
+// Usage: node scripts/generate-sun-reference.mjs
+//
+// Times follow the NOAA solar calculator (upper limb, 0.833° below the
+// horizon for refraction and the solar radius), an implementation independent
+// of src/lib/sun.ts. Re-run after `npm run import:airports`.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const airportsPath = `${root}/src/data/airports.json`;
+const outputPath = `${root}/src/data/sunReference.json`;
+
+// March equinox and both solstices, as local calendar dates at each airport
+const DATES = ['2025-03-20', '2025-06-21', '2025-12-21'];
+const ZENITH = 90.833;
+const MINUTES_PER_DAY = 1440;
+
+const rad = (degrees) => (degrees * Math.PI) / 180;
+const deg = (radians) => (radians * 180) / Math.PI;
+
+/**
+ * Julian day of 0h UTC on a Gregorian calendar date
+ */
+function julianDay(year, month, day) {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+/**
+ * Equation of time (minutes) and declination (degrees) of the sun
+ * @param t Julian centuries since J2000.0
+ */
+function solarParameters(t) {
+  const meanLongitude = (280.46646 + t * (36000.76983 + 0.0003032 * t)) % 360;
+  const meanAnomaly = rad(357.52911 + t * (35999.05029 - 0.0001537 * t));
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center =
+    Math.sin(meanAnomaly) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * meanAnomaly) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * meanAnomaly) * 0.000289;
+  const omega = rad(125.04 - 1934.136 * t);
+  const apparentLongitude = rad(meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega));
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = rad(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = deg(Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude)));
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = rad(meanLongitude);
+  const equationOfTime = 4 * deg(
+    y * Math.sin(2 * l0) -
+    2 * eccentricity * Math.sin(meanAnomaly) +
+    4 * eccentricity * y * Math.sin(meanAnomaly) * Math.cos(2 * l0) -
+    0.5 * y * y * Math.sin(4 * l0) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly)
+  );
+  return { equationOfTime, declination };
+}
+
+/**
+ * Sunrise or sunset on a UTC day, iterating on the time of the event
+ * @returns Minutes after 0h UTC, or null when the sun does not cross the horizon
+ */
+function horizonEvent(rising, jd, lat, lng) {
+  const t = (jd - 2451545) / 36525;
+  let minutes = 720 - 4 * lng;
+  for (let i = 0; i < 3; i++) {
+    const { equationOfTime, declination } = solarParameters(t + minutes / MINUTES_PER_DAY / 36525);
+    const cosHourAngle =
+      Math.cos(rad(ZENITH)) / (Math.cos(rad(lat)) * Math.cos(rad(declination))) -
+      Math.tan(rad(lat)) * Math.tan(rad(declination));
+    if (Math.abs(cosHourAngle) > 1) return null;
+    const hourAngle = deg(Math.acos(cosHourAngle)) * (rising ? 1 : -1);
+    minutes = 720 - 4 * (lng + hourAngle) - equationOfTime;
+  }
+  return minutes;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in an IANA timezone
+ */
+function localDate(ms, timeZone) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(ms));
+}
+
+/**
+ * Sunrise and sunset around the solar transit of a local calendar day, so a
+ * sunset just after midnight still belongs to the afternoon before it
+ * @returns Minutes after 0h UTC of that date, rounded, or null without the event
+ */
+function localDayEvents(date, lat, lng, timeZone) {
+  const [year, month, day] = date.split('-').map(Number);
+  const midnight = Date.UTC(year, month - 1, day);
+
+  // The transit of the local day can fall on the UTC day before or after
+  for (const offset of [-1, 0, 1]) {
+    const utcDay = new Date(midnight + offset * MINUTES_PER_DAY * 60000);
+    const jd = julianDay(utcDay.getUTCFullYear(), utcDay.getUTCMonth() + 1, utcDay.getUTCDate());
+    const transit = 720 - 4 * lng - solarParameters((jd + 0.5 - 2451545) / 36525).equationOfTime;
+    if (localDate(midnight + (offset * MINUTES_PER_DAY + transit) * 60000, timeZone) !== date) continue;
+
+    return [true, false].map((rising) => {
+      const minutes = horizonEvent(rising, jd, lat, lng);
+      return minutes === null ? null : Math.round(offset * MINUTES_PER_DAY + minutes);
+    });
+  }
+  return [null, null];
+}
+
+const dataset = JSON.parse(readFileSync(airportsPath, 'utf8'));
+const rows = dataset.airports.map(([code, , , , , lat, lng, , , timezone]) => [
+  code,
+  ...DATES.flatMap((date) => localDayEvents(date, lat, lng, dataset.timezones[timezone])),
+]);
+
+// One airport per line, like airports.json
+const lines = [
+  '{',
+  `  "dates": ${JSON.stringify(DATES)},`,
+  '  "airports": [',
+  rows.map((row) => `    ${JSON.stringify(row)}`).join(',\n'),
+  '  ]',
+  '}',
+];
+writeFileSync(outputPath, `${lines.join('\n')}\n`);
+
+const polar = rows.filter((row) => row.includes(null)).length;
+console.log(`Wrote ${rows.length} airports on ${DATES.length} dates (${polar} with polar days) to ${outputPath}`);
@@ -0,0 +1,211 @@
+// Build src/data/airports.json from OurAirports-style CSV files.
+//
+// Usage: node scripts/import-airports.mjs [airports.csv] [countries.csv] [runways.csv]
+// (defaults: data/ourairports/airports.csv, countries.csv and runways.csv)
+//
+// The full files from https://ourairports.com/data/ work as-is. Airports are
+// kept when they have an IATA code and scheduled service. A `timezone` column,
+// when present and filled, wins over the zone derived from the coordinates.
+// Runway headings are true headings: `le_heading_degT`/`he_heading_degT` when
+// filled, otherwise the magnetic designator (22R = 220°) corrected by the
+// WMM declination at the airport.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import tzLookup from 'tz-lookup';
+import { magvar } from 'magvar';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const airportsPath = resolve(process.argv[2] ?? `${root}/data/ourairports/airports.csv`);
+const countriesPath = resolve(process.argv[3] ?? `${root}/data/ourairports/countries.csv`);
+const runwaysPath = resolve(process.argv[4] ?? `${root}/data/ourairports/runways.csv`);
+const outputPath = `${root}/src/data/airports.json`;
+
+const FEET_TO_METERS = 0.3048;
+// OurAirports types worth flying to, and their single-letter codes in the output
+const AIRPORT_TYPES = { large_airport: 'L', medium_airport: 'M', small_airport: 'S' };
+// Fixed model date for declinations, so re-imports of the same files match
+const DECLINATION_EPOCH = 2025.0;
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, doubled quotes, commas and newlines in quotes)
+ * @returns Rows as objects keyed by the header
+ */
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.length > 1 || r[0] !== '');
+  return body.map((r) => Object.fromEntries(header.map((name, i) => [name, r[i] ?? ''])));
+}
+
+const round = (value, decimals) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Heading of a runway designator: 01-36, optionally L/C/R, in tens of degrees
+ * magnetic; a T suffix (northern Canada) means true
+ * @returns Degrees and whether they are true, or null for helipads, water lanes and the like
+ */
+function parseDesignator(ident) {
+  const match = ident.trim().toUpperCase().match(/^(\d{1,2})([LCR]|T)?$/);
+  if (!match || Number(match[1]) < 1 || Number(match[1]) > 36) return null;
+  return { heading: Number(match[1]) * 10, isTrue: match[2] === 'T' };
+}
+
+/**
+ * True headings of both ends of an open runway, or null when they cannot be told
+ */
+function getRunwayEnds(row, lat, lng) {
+  const declination = magvar(lat, lng, 0, DECLINATION_EPOCH);
+  const headingOf = (ident, degT) => {
+    if (degT !== '' && Number.isFinite(Number(degT))) return Number(degT);
+    const designator = parseDesignator(ident);
+    if (!designator) return null;
+    return designator.isTrue ? designator.heading : designator.heading + declination;
+  };
+
+  // Single-digit designators are written with a leading zero, 8 -> 08
+  const leIdent = row.le_ident.trim().toUpperCase().replace(/^(\d)(?!\d)/, '0$1');
+  const heIdent = row.he_ident.trim().toUpperCase().replace(/^(\d)(?!\d)/, '0$1');
+  let leHeading = headingOf(leIdent, row.le_heading_degT?.trim() ?? '');
+  let heHeading = headingOf(heIdent, row.he_heading_degT?.trim() ?? '');
+  // One end is enough; the other points the opposite way
+  if (leHeading === null && heHeading !== null) leHeading = heHeading + 180;
+  if (heHeading === null && leHeading !== null) heHeading = leHeading + 180;
+  if (leHeading === null || heHeading === null || !leIdent || !heIdent) return null;
+
+  const degrees = (heading) => ((Math.round(heading) % 360) + 360) % 360;
+  return [leIdent, degrees(leHeading), heIdent, degrees(heHeading)];
+}
+
+const countries = Object.fromEntries(
+  parseCsv(readFileSync(countriesPath, 'utf8')).map((country) => [country.code, country.name])
+);
+
+// Open runways by airport ident
+const runwaysByAirport = new Map();
+for (const row of parseCsv(readFileSync(runwaysPath, 'utf8'))) {
+  if (row.closed === '1') continue;
+  const runways = runwaysByAirport.get(row.airport_ident) ?? [];
+  runways.push(row);
+  runwaysByAirport.set(row.airport_ident, runways);
+}
+
+const timezones = [];
+const timezoneIndex = new Map();
+const airports = [];
+const seen = new Set();
+let derivedZones = 0;
+let runwayCount = 0;
+
+for (const row of parseCsv(readFileSync(airportsPath, 'utf8'))) {
+  const iata = row.iata_code?.trim().toUpperCase();
+  const type = AIRPORT_TYPES[row.type];
+  if (!iata || !/^[A-Z]{3}$/.test(iata) || !type || row.scheduled_service !== 'yes' || seen.has(iata)) continue;
+
+  const lat = Number(row.latitude_deg);
+  const lng = Number(row.longitude_deg);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+
+  // Newer exports have icao_code; older ones only the GPS code and ident
+  const icao = [row.icao_code, row.gps_code, row.ident]
+    .map((code) => code?.trim().toUpperCase())
+    .find((code) => code && /^[A-Z]{4}$/.test(code)) ?? '';
+
+  let timezone = row.timezone?.trim();
+  if (!timezone) {
+    timezone = tzLookup(lat, lng);
+    derivedZones++;
+  }
+  if (!timezoneIndex.has(timezone)) {
+    timezoneIndex.set(timezone, timezones.length);
+    timezones.push(timezone);
+  }
+
+  // Longest first: [le ident, le heading, he ident, he heading, length in meters]
+  const runways = (runwaysByAirport.get(row.ident) ?? [])
+    .map((runway) => {
+      const ends = getRunwayEnds(runway, lat, lng);
+      return ends && [...ends, Math.round(Number(runway.length_ft || 0) * FEET_TO_METERS)];
+    })
+    .filter(Boolean)
+    .sort((a, b) => b[4] - a[4])
+    // Some airports list a runway twice; keep the longer record
+    .filter((runway, index, all) =>
+      all.findIndex((other) => [other[0], other[2]].some((ident) => ident === runway[0] || ident === runway[2])) === index
+    );
+  runwayCount += runways.length;
+
+  seen.add(iata);
+  airports.push([
+    iata,
+    icao,
+    row.name.trim(),
+    row.municipality.trim(),
+    row.iso_country,
+    round(lat, 4),
+    round(lng, 4),
+    row.elevation_ft ? Math.round(Number(row.elevation_ft) * FEET_TO_METERS) : 0,
+    type,
+    timezoneIndex.get(timezone),
+    runways,
+  ]);
+}
+
+airports.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+
+const usedCountries = Object.fromEntries(
+  [...new Set(airports.map((airport) => airport[4]))].sort().map((code) => [code, countries[code] ?? code])
+);
+
+// One airport per line keeps diffs of re-imports readable
+const lines = [
+  '{',
+  '  "fields": ["iata", "icao", "name", "city", "country", "lat", "lng", "elevation", "type", "timezone", "runways"],',
+  `  "countries": ${JSON.stringify(usedCountries)},`,
+  `  "timezones": ${JSON.stringify(timezones)},`,
+  '  "airports": [',
+  airports.map((airport) => `    ${JSON.stringify(airport)}`).join(',\n'),
+  '  ]',
+  '}',
+];
+writeFileSync(outputPath, `${lines.join('\n')}\n`);
+
+console.log(
+  `Wrote ${airports.length} airports in ${Object.keys(usedCountries).length} countries ` +
+  `(${derivedZones} timezones from coordinates, ${runwayCount} runways) to ${outputPath}`
+);
@@ -0,0 +1,30 @@
+// Check calculateSunriseSunset against the bundled reference table.
+//
+// Usage: npm run verify:sun [-- toleranceMinutes]
+//
+// Prints every mismatch and exits with status 1 when there is any.
+
+import { SUN_REFERENCE, verifySunReference } from '../src/lib/sunReference';
+
+const tolerance = process.argv[2] ? Number(process.argv[2]) : 2;
+if (!Number.isFinite(tolerance) || tolerance < 0) {
+  console.error(`Invalid tolerance '${process.argv[2]}': expected minutes`);
+  process.exit(2);
+}
+
+const mismatches = verifySunReference(tolerance);
+
+for (const mismatch of mismatches) {
+  const difference = mismatch.differenceMinutes === null ? '' : ` (${mismatch.differenceMinutes.toFixed(1)} min)`;
+  console.error(
+    mismatch.event === 'missing'
+      ? `${mismatch.code} ${mismatch.date}: airport not in the database`
+      : `${mismatch.code} ${mismatch.date} ${mismatch.event}: expected ${mismatch.expected ?? 'none'}, got ${mismatch.actual ?? 'none'}${difference}`
+  );
+}
+
+console.log(
+  `${SUN_REFERENCE.length - new Set(mismatches.map((m) => `${m.code} ${m.date}`)).size} of ` +
+  `${SUN_REFERENCE.length} reference days within ${tolerance} min`
+);
+process.exit(mismatches.length > 0 ? 1 : 0);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAirportsByDistance, AirportWithDistance } from '@/lib/cities';
+
+export interface NearestAirportsRouteResponse {
+  success: boolean;
+  data?: AirportWithDistance[]; // nearest first
+  error?: string;
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const latParam = searchParams.get('lat');
+    const lngParam = searchParams.get('lng');
+    const limitParam = searchParams.get('limit');
+
+    // Validate required parameters
+    if (!latParam || !lngParam) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required parameters: lat, lng'
+      } as NearestAirportsRouteResponse, { status: 400 });
+    }
+
+    const lat = Number(latParam);
+    const lng = Number(lngParam);
+    if (!Number.isFinite(lat) || lat < -90 || lat > 90 || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid location: expected lat between -90 and 90 and lng between -180 and 180'
+      } as NearestAirportsRouteResponse, { status: 400 });
+    }
+
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid limit: expected a whole number between 1 and ${MAX_LIMIT}`
+      } as NearestAirportsRouteResponse, { status: 400 });
+    }
+
+    const response: NearestAirportsRouteResponse = {
+      success: true,
+      data: getAirportsByDistance(lat, lng, limit),
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Nearest airport lookup error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    } as NearestAirportsRouteResponse, { status: 500 });
+  }
+}
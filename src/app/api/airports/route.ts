@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIRPORTS, getPopularAirports } from '@/lib/cities';
+import { searchAirports, AirportSearchResult } from '@/lib/search';
+
+export interface AirportsRouteResponse {
+  success: boolean;
+  data?: {
+    query: string | null;
+    total: number; // results across all pages
+    page: number;
+    pageSize: number;
+    results: AirportSearchResult[];
+  };
+  error?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Search airports, or list them all by code (or just the popular ones) without a query
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() || null;
+    const pageParam = searchParams.get('page');
+    const pageSizeParam = searchParams.get('pageSize');
+    const popular = searchParams.get('popular') === 'true';
+
+    const page = pageParam ? Number(pageParam) : 1;
+    if (!Number.isInteger(page) || page < 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid page: expected a whole number from 1'
+      } as AirportsRouteResponse, { status: 400 });
+    }
+
+    const pageSize = pageSizeParam ? Number(pageSizeParam) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid pageSize: expected a whole number between 1 and ${MAX_PAGE_SIZE}`
+      } as AirportsRouteResponse, { status: 400 });
+    }
+
+    const results: AirportSearchResult[] = query
+      ? searchAirports(query, AIRPORTS.length)
+      : (popular ? getPopularAirports() : AIRPORTS).map((airport) => ({ airport, score: 0, matches: [] }));
+
+    const response: AirportsRouteResponse = {
+      success: true,
+      data: {
+        query,
+        total: results.length,
+        page,
+        pageSize,
+        results: results.slice((page - 1) * pageSize, page * pageSize),
+      },
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Airport search error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    } as AirportsRouteResponse, { status: 500 });
+  }
+}
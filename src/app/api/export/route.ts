@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findAirportByCode, Airport } from '@/lib/cities';
+import { analyzeItinerary, parseDepartureTimes, parseFlightLegOptions, parseRunwayChoices } from '@/lib/flight';
+import { buildFlightGeoJson, buildFlightKml } from '@/lib/export';
+
+// Only returned on errors; success responses are the exported file
+export interface ExportRouteResponse {
+  success: boolean;
+  error?: string;
+}
+
+const CONTENT_TYPES = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const dt = searchParams.get('dt');
+    const via = searchParams.get('via');
+    const layoversParam = searchParams.get('layovers');
+    const format = searchParams.get('format') ?? 'geojson';
+    const interval = searchParams.get('interval');
+
+    // Validate required parameters
+    if (!from || !to || !dt) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required parameters: from, to, dt'
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    if (format !== 'geojson' && format !== 'kml') {
+      return NextResponse.json({
+        success: false,
+        error: "Invalid format: expected 'geojson' or 'kml'"
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    const sampleMinutes = interval ? Number(interval) : 10;
+    if (!Number.isFinite(sampleMinutes) || sampleMinutes < 1 || sampleMinutes > 60) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid interval: expected minutes between 1 and 60'
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    // Find airports, including any connections
+    const codes = [from, ...(via ? via.split(',').map((code) => code.trim()).filter(Boolean) : []), to];
+    const airports: Airport[] = [];
+    for (const code of codes) {
+      const airport = findAirportByCode(code);
+      if (!airport) {
+        return NextResponse.json({
+          success: false,
+          error: `Airport '${code}' not found`
+        } as ExportRouteResponse, { status: 404 });
+      }
+      airports.push(airport);
+    }
+
+    // Prevent legs that go nowhere
+    for (let i = 0; i < airports.length - 1; i++) {
+      if (airports[i].code === airports[i + 1].code) {
+        return NextResponse.json({
+          success: false,
+          error: `Leg ${i + 1} departs and arrives at ${airports[i].code}`
+        } as ExportRouteResponse, { status: 400 });
+      }
+    }
+
+    // One departure time, or one per leg, as for /api/itinerary
+    const departures = parseDepartureTimes(searchParams, airports.slice(0, -1));
+    if ('error' in departures) {
+      return NextResponse.json({
+        success: false,
+        error: departures.error
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    const layoverMinutes = layoversParam ? layoversParam.split(',').map(Number) : undefined;
+    if (layoverMinutes && (
+      layoverMinutes.length !== airports.length - 2 ||
+      layoverMinutes.some((minutes) => !Number.isFinite(minutes) || minutes < 0)
+    )) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid layovers: expected non-negative minutes for each connection'
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    const parsed = parseFlightLegOptions(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    // Runways for the first takeoff and the last landing
+    const runwayChoices = parseRunwayChoices(searchParams, airports[0], airports[airports.length - 1]);
+    if ('error' in runwayChoices) {
+      return NextResponse.json({
+        success: false,
+        error: runwayChoices.error
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    const result = analyzeItinerary(
+      airports,
+      { departureTimes: departures.times, layoverMinutes },
+      { ...parsed.options, ...runwayChoices.options }
+    );
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      } as ExportRouteResponse, { status: 400 });
+    }
+
+    const { legs } = result.data;
+    const body = format === 'kml'
+      ? buildFlightKml(legs, { sampleMinutes })
+      : JSON.stringify(buildFlightGeoJson(legs, { sampleMinutes }));
+    const filename = `horizonview-${airports.map((airport) => airport.code).join('-')}.${format}`;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Flight export error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    } as ExportRouteResponse, { status: 500 });
+  }
+}
@@ -1,164 +1,237 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { findAirportByCode } from '@/lib/cities';
-import { haversineDistance, calculateBearing, calculateFlightDuration, generateGreatCirclePath } from '@/lib/geo';
-import { calculateFlightSunData, getRecommendedSeats } from '@/lib/sun';
+import { findAirportByCode, Airport } from '@/lib/cities';
+import { analyzeFlightLeg, parseDepartureTimes, parseFlightLegOptions, parseRunwayChoices, FlightLegData, FlightLegOptions } from '@/lib/flight';
+import { LocalDepartureTime } from '@/lib/time';
+import { parseFlightTrack, TrackFormat } from '@/lib/track';
 
 export interface FlightRouteResponse {
   success: boolean;
-  data?: {
-    departure: {
-      code: string;
-      name: string;
-      city: string;
-      lat: number;
-      lng: number;
-    };
-    arrival: {
-      code: string;
-      name: string;
-      city: string;
-      lat: number;
-      lng: number;
-    };
-    distance: number;
-    bearing: number;
-    duration: number;
-    path: [number, number][];
-    sunData: {
-      scenicSide: 'left' | 'right' | 'both' | 'none';
-      recommendedSeats: string[];
-      sunriseTime: string;
-      sunsetTime: string;
-      departureSunAltitude: number;
-      arrivalSunAltitude: number;
-    };
-    departureTime: string;
-    arrivalTime: string;
-  };
+  data?: FlightLegData;
+  departure?: LocalDepartureTime; // how `dt` was read, when it was used
   error?: string;
 }
 
+// Largest track upload accepted, in bytes
+const MAX_TRACK_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Read a request body as text, stopping once it grows past a size
+ * @param maxBytes Largest body accepted
+ * @returns The text, or null when the body is larger
+ */
+async function readBodyWithLimit(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// Track formats by upload Content-Type
+const TRACK_CONTENT_TYPES: Record<string, TrackFormat> = {
+  'application/gpx+xml': 'gpx',
+  'application/vnd.google-earth.kml+xml': 'kml',
+  'application/geo+json': 'geojson',
+  'text/csv': 'csv',
+};
+
+/**
+ * Validate the airports, departure time and options shared by GET and POST
+ * @returns The parsed request, or the error response to send
+ */
+function parseFlightQuery(searchParams: URLSearchParams): {
+  departureAirport: Airport;
+  arrivalAirport: Airport;
+  departureTime: Date | null;
+  departure: LocalDepartureTime | null;
+  options: FlightLegOptions;
+} | NextResponse {
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  // Validate required parameters
+  if (!from || !to) {
+    return NextResponse.json({
+      success: false,
+      error: 'Missing required parameters: from, to'
+    } as FlightRouteResponse, { status: 400 });
+  }
+
+  // Find airports
+  const departureAirport = findAirportByCode(from);
+  const arrivalAirport = findAirportByCode(to);
+
+  if (!departureAirport) {
+    return NextResponse.json({
+      success: false,
+      error: `Departure airport '${from}' not found`
+    } as FlightRouteResponse, { status: 404 });
+  }
+
+  if (!arrivalAirport) {
+    return NextResponse.json({
+      success: false,
+      error: `Arrival airport '${to}' not found`
+    } as FlightRouteResponse, { status: 404 });
+  }
+
+  // Prevent same airport selection
+  if (departureAirport.code === arrivalAirport.code) {
+    return NextResponse.json({
+      success: false,
+      error: 'Departure and arrival airports cannot be the same'
+    } as FlightRouteResponse, { status: 400 });
+  }
+
+  // Parse departure time, local to the departure airport unless it has an offset
+  const departureTimes = parseDepartureTimes(searchParams, [departureAirport]);
+  if ('error' in departureTimes) {
+    return NextResponse.json({
+      success: false,
+      error: departureTimes.error
+    } as FlightRouteResponse, { status: 400 });
+  }
+
+  const parsed = parseFlightLegOptions(searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json({
+      success: false,
+      error: parsed.error
+    } as FlightRouteResponse, { status: 400 });
+  }
+
+  const runwayChoices = parseRunwayChoices(searchParams, departureAirport, arrivalAirport);
+  if ('error' in runwayChoices) {
+    return NextResponse.json({
+      success: false,
+      error: runwayChoices.error
+    } as FlightRouteResponse, { status: 400 });
+  }
+
+  return {
+    departureAirport,
+    arrivalAirport,
+    departureTime: departureTimes.times[0] ?? null,
+    departure: departureTimes.departures[0] ?? null,
+    options: { ...parsed.options, ...runwayChoices.options },
+  };
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const from = searchParams.get('from');
-    const to = searchParams.get('to');
-    const dt = searchParams.get('dt');
+    const query = parseFlightQuery(searchParams);
+    if (query instanceof NextResponse) return query;
 
-    // Validate required parameters
-    if (!from || !to || !dt) {
+    if (!query.departureTime) {
       return NextResponse.json({
         success: false,
         error: 'Missing required parameters: from, to, dt'
       } as FlightRouteResponse, { status: 400 });
     }
 
-    // Find airports
-    const departureAirport = findAirportByCode(from);
-    const arrivalAirport = findAirportByCode(to);
+    const response: FlightRouteResponse = {
+      success: true,
+      data: analyzeFlightLeg(query.departureAirport, query.arrivalAirport, query.departureTime, query.options),
+      departure: query.departure ?? undefined,
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Flight route calculation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    } as FlightRouteResponse, { status: 500 });
+  }
+}
+
+// Analyze a flown track uploaded as the request body (GPX, KML, GeoJSON or ADS-B CSV)
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseFlightQuery(searchParams);
+    if (query instanceof NextResponse) return query;
 
-    if (!departureAirport) {
+    // Turn away declared oversize uploads unread; chunked ones stop at the limit
+    const declaredSize = Number(request.headers.get('content-length'));
+    const body = declaredSize > MAX_TRACK_SIZE ? null : await readBodyWithLimit(request, MAX_TRACK_SIZE);
+    if (body === null) {
       return NextResponse.json({
         success: false,
-        error: `Departure airport '${from}' not found`
-      } as FlightRouteResponse, { status: 404 });
+        error: 'Track file is too large'
+      } as FlightRouteResponse, { status: 413 });
     }
-
-    if (!arrivalAirport) {
+    if (!body.trim()) {
       return NextResponse.json({
         success: false,
-        error: `Arrival airport '${to}' not found`
-      } as FlightRouteResponse, { status: 404 });
+        error: 'Missing track file in request body'
+      } as FlightRouteResponse, { status: 400 });
     }
 
-    // Prevent same airport selection
-    if (departureAirport.code === arrivalAirport.code) {
+    // Explicit format, then Content-Type, then sniff the contents
+    const formatParam = searchParams.get('format');
+    if (formatParam && !['gpx', 'kml', 'geojson', 'csv'].includes(formatParam)) {
       return NextResponse.json({
         success: false,
-        error: 'Departure and arrival airports cannot be the same'
+        error: "Invalid format: expected 'gpx', 'kml', 'geojson' or 'csv'"
       } as FlightRouteResponse, { status: 400 });
     }
+    const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+    const format = (formatParam as TrackFormat | null) ?? TRACK_CONTENT_TYPES[contentType];
 
-    // Parse departure time
-    const departureTime = new Date(dt);
-    if (isNaN(departureTime.getTime())) {
+    const parsed = format ? parseFlightTrack(body, format) : parseFlightTrack(body);
+    if ('error' in parsed) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid departure time format'
+        error: parsed.error
       } as FlightRouteResponse, { status: 400 });
     }
 
-    // Calculate flight parameters
-    const distance = haversineDistance(
-      departureAirport.lat, departureAirport.lng,
-      arrivalAirport.lat, arrivalAirport.lng
-    );
-
-    const bearing = calculateBearing(
-      departureAirport.lat, departureAirport.lng,
-      arrivalAirport.lat, arrivalAirport.lng
-    );
-
-    const duration = calculateFlightDuration(distance);
-
-    // Generate flight path with fewer points for straighter appearance
-    const path = generateGreatCirclePath(
-      departureAirport.lat, departureAirport.lng,
-      arrivalAirport.lat, arrivalAirport.lng,
-      20 // Fewer points for straighter path
-    );
-
-    // Calculate sun data using custom sunrise/sunset calculation
-    const sunData = calculateFlightSunData(
-      departureAirport.lat, departureAirport.lng,
-      arrivalAirport.lat, arrivalAirport.lng,
-      departureTime,
-      duration
-    );
-
-    const recommendedSeats = getRecommendedSeats(sunData.scenicSide);
-
-    // Calculate arrival time
-    const arrivalTime = new Date(departureTime.getTime() + duration * 60 * 60 * 1000);
+    // Without timestamps the track needs a departure time to be placed in time
+    const { track } = parsed;
+    const departureTime = track.timed ? track.points[0].time! : query.departureTime;
+    if (!departureTime) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required parameter: dt (the track has no timestamps)'
+      } as FlightRouteResponse, { status: 400 });
+    }
 
     const response: FlightRouteResponse = {
       success: true,
-      data: {
-        departure: {
-          code: departureAirport.code,
-          name: departureAirport.name,
-          city: departureAirport.city,
-          lat: departureAirport.lat,
-          lng: departureAirport.lng,
-        },
-        arrival: {
-          code: arrivalAirport.code,
-          name: arrivalAirport.name,
-          city: arrivalAirport.city,
-          lat: arrivalAirport.lat,
-          lng: arrivalAirport.lng,
-        },
-        distance: Math.round(distance),
-        bearing: Math.round(bearing),
-        duration: Math.round(duration * 10) / 10, // Round to 1 decimal place
-        path,
-        sunData: {
-          scenicSide: sunData.scenicSide,
-          recommendedSeats,
-          sunriseTime: sunData.sunriseTime.toISOString(),
-          sunsetTime: sunData.sunsetTime.toISOString(),
-          departureSunAltitude: Math.round(sunData.departureSun.altitude * 10) / 10,
-          arrivalSunAltitude: Math.round(sunData.arrivalSun.altitude * 10) / 10,
-        },
-        departureTime: departureTime.toISOString(),
-        arrivalTime: arrivalTime.toISOString(),
-      }
+      data: analyzeFlightLeg(
+        query.departureAirport,
+        query.arrivalAirport,
+        departureTime,
+        { ...query.options, track }
+      ),
+      departure: track.timed ? undefined : query.departure ?? undefined,
     };
 
     return NextResponse.json(response);
 
   } catch (error) {
-    console.error('Flight route calculation error:', error);
+    console.error('Flight track analysis error:', error);
     return NextResponse.json({
       success: false,
       error: 'Internal server error'
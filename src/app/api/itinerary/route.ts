@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findAirportByCode, Airport } from '@/lib/cities';
+import { analyzeItinerary, parseDepartureTimes, parseFlightLegOptions, parseRunwayChoices, ItineraryData } from '@/lib/flight';
+import { LocalDepartureTime } from '@/lib/time';
+
+export interface ItineraryRouteResponse {
+  success: boolean;
+  data?: ItineraryData;
+  departures?: LocalDepartureTime[]; // how each `dt` value was read
+  error?: string;
+}
+
+// Longest itinerary accepted, in airports
+const MAX_STOPS = 6;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const route = searchParams.get('route');
+    const dt = searchParams.get('dt');
+    const layoversParam = searchParams.get('layovers');
+
+    // Validate required parameters
+    if (!route || !dt) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required parameters: route, dt'
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    const codes = route.split(',').map((code) => code.trim()).filter(Boolean);
+    if (codes.length < 2 || codes.length > MAX_STOPS) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid route: expected between 2 and ${MAX_STOPS} comma-separated airport codes`
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    // Find airports
+    const airports: Airport[] = [];
+    for (const code of codes) {
+      const airport = findAirportByCode(code);
+      if (!airport) {
+        return NextResponse.json({
+          success: false,
+          error: `Airport '${code}' not found`
+        } as ItineraryRouteResponse, { status: 404 });
+      }
+      airports.push(airport);
+    }
+
+    // Prevent legs that go nowhere
+    for (let i = 0; i < airports.length - 1; i++) {
+      if (airports[i].code === airports[i + 1].code) {
+        return NextResponse.json({
+          success: false,
+          error: `Leg ${i + 1} departs and arrives at ${airports[i].code}`
+        } as ItineraryRouteResponse, { status: 400 });
+      }
+    }
+
+    // Either one departure time for the first leg, or one per leg, each local
+    // to the airport it departs from unless it has an offset
+    const departures = parseDepartureTimes(searchParams, airports.slice(0, -1));
+    if ('error' in departures) {
+      return NextResponse.json({
+        success: false,
+        error: departures.error
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+    const departureTimes = departures.times;
+    if (departureTimes.length !== 1 && departureTimes.length !== airports.length - 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'Expected one departure time, or one per leg'
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    // Optional layover minutes at each connection
+    const layoverMinutes = layoversParam ? layoversParam.split(',').map(Number) : undefined;
+    if (layoverMinutes && (
+      layoverMinutes.length !== airports.length - 2 ||
+      layoverMinutes.some((minutes) => !Number.isFinite(minutes) || minutes < 0)
+    )) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid layovers: expected non-negative minutes for each connection'
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    const parsed = parseFlightLegOptions(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    // Runways for the first takeoff and the last landing
+    const runwayChoices = parseRunwayChoices(searchParams, airports[0], airports[airports.length - 1]);
+    if ('error' in runwayChoices) {
+      return NextResponse.json({
+        success: false,
+        error: runwayChoices.error
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    const result = analyzeItinerary(
+      airports,
+      { departureTimes, layoverMinutes },
+      { ...parsed.options, ...runwayChoices.options }
+    );
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      } as ItineraryRouteResponse, { status: 400 });
+    }
+
+    const response: ItineraryRouteResponse = {
+      success: true,
+      data: result.data,
+      departures: departures.departures,
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Itinerary calculation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    } as ItineraryRouteResponse, { status: 500 });
+  }
+}
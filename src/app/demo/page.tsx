@@ -2,7 +2,7 @@
 
 import React from 'react';
 import FlightSunExperience from '@/components/FlightSunExperience';
-import { generateGreatCirclePath, calculateBearing } from '@/lib/geo';
+import { generateRoutePath, calculateBearing } from '@/lib/geo';
 import { motion } from 'framer-motion';
 
 export default function DemoPage() {
@@ -15,7 +15,7 @@ export default function DemoPage() {
     const departureTime = new Date('2025-01-10T14:00:00Z');
     const flightDuration = 14; // hours
 
-    const path = generateGreatCirclePath(
+    const path = generateRoutePath(
         departureLat,
         departureLng,
         arrivalLat,
@@ -1,42 +1,93 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import Link from 'next/link';
 import Map2D from '@/components/Map2D';
 import AirplaneSeats from '@/components/AirplaneSeats';
 import SunFlightTimeline from '@/components/SunFlightTimeline';
 import SeatLegend from '@/components/SeatLegend';
+import LocalTime from '@/components/LocalTime';
 import { FlightRouteResponse } from '@/app/api/flight/route';
+import { ItineraryRouteResponse } from '@/app/api/itinerary/route';
+import { getLegTimeZone, FlightLegData, ItineraryData } from '@/lib/flight';
+import { parseFlightTrack, toHeightAboveGround, FlightTrack, TrackFormat } from '@/lib/track';
+import { buildFlightGeoJson, buildFlightKml, ExportFormat } from '@/lib/export';
+import { formatWindParam } from '@/lib/wind';
+import { LocalDepartureTime } from '@/lib/time';
 
 interface VisualizeClientProps {
   searchParams: {
     from: string;
     to: string;
-    dt: string;
+    dt: string; // departure airport wall-clock time, or an ISO instant with an offset
+    tz?: string; // IANA zone dt is read in (default: the departure airport's)
+    dst?: string; // 'earlier' or 'later' for a time repeated when clocks go back
+    alt?: string;
+    objective?: string;
+    wind?: string; // 'climatology', 'none' or '<direction>@<speed>'
+    resolution?: string; // base sun sampling step in minutes
+    depRunway?: string; // runway designator, 'auto' or 'none'; first takeoff of the trip
+    arrRunway?: string; // the same for the last landing
+    via?: string; // comma-separated connecting airports
+    layovers?: string; // comma-separated minutes per connection
   };
 }
 
 export default function VisualizeClient({ searchParams }: VisualizeClientProps) {
-  const [flightData, setFlightData] = useState<FlightRouteResponse['data'] | null>(null);
+  const [legs, setLegs] = useState<FlightLegData[]>([]);
+  const [layovers, setLayovers] = useState<ItineraryData['layovers']>([]);
+  const [activeLeg, setActiveLeg] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [plannedLegs, setPlannedLegs] = useState<Record<number, FlightLegData>>({});
+  const [tracks, setTracks] = useState<Record<number, FlightTrack>>({});
+  const [trackUploading, setTrackUploading] = useState(false);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const [departureNotes, setDepartureNotes] = useState<LocalDepartureTime[]>([]);
 
   useEffect(() => {
     const fetchFlightData = async () => {
       try {
-        const response = await fetch(
-          `/api/flight?from=${searchParams.from}&to=${searchParams.to}&dt=${searchParams.dt}`
-        );
+        // Options shared by both endpoints, passed on when the page has them
+        const params = new URLSearchParams({ dt: searchParams.dt });
+        for (const key of ['tz', 'dst', 'alt', 'objective', 'wind', 'resolution', 'depRunway', 'arrRunway'] as const) {
+          const value = searchParams[key];
+          if (value) params.set(key, value);
+        }
+
+        // Connecting trips go through the itinerary endpoint
+        if (searchParams.via) {
+          params.set('route', [searchParams.from, searchParams.via, searchParams.to].join(','));
+          if (searchParams.layovers) params.set('layovers', searchParams.layovers);
+          const response = await fetch(`/api/itinerary?${params}`);
+
+          const data: ItineraryRouteResponse = await response.json();
+
+          if (!data.success || !data.data) {
+            setError(data.error || 'Failed to load itinerary data');
+            return;
+          }
+
+          setLegs(data.data.legs);
+          setLayovers(data.data.layovers);
+          setDepartureNotes(data.departures ?? []);
+          return;
+        }
+
+        params.set('from', searchParams.from);
+        params.set('to', searchParams.to);
+        const response = await fetch(`/api/flight?${params}`);
 
         const data: FlightRouteResponse = await response.json();
 
-        if (!data.success) {
+        if (!data.success || !data.data) {
           setError(data.error || 'Failed to load flight data');
           return;
         }
 
-        setFlightData(data.data);
+        setLegs([data.data]);
+        setDepartureNotes(data.departure ? [data.departure] : []);
       } catch (err) {
         setError('Failed to fetch flight data');
         console.error('Flight data fetch error:', err);
@@ -48,6 +99,102 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
     fetchFlightData();
   }, [searchParams]);
 
+  const flightData = legs[activeLeg] ?? null;
+  const firstLeg = legs[0];
+  const lastLeg = legs[legs.length - 1];
+
+  // Re-run the active leg over an uploaded GPX, KML, GeoJSON or ADS-B CSV track
+  const handleTrackUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !flightData) return;
+
+    setTrackError(null);
+    setTrackUploading(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const format: TrackFormat | null = extension === 'gpx' || extension === 'kml' || extension === 'csv'
+        ? extension
+        : extension === 'geojson' || extension === 'json' ? 'geojson' : null;
+      const text = await file.text();
+      const params = new URLSearchParams({
+        from: flightData.departure.code,
+        to: flightData.arrival.code,
+        dt: flightData.departureTime,
+        alt: String(flightData.cruiseAltitude),
+        objective: flightData.objective,
+        earth: flightData.earthModel,
+        wind: formatWindParam(flightData.wind?.field ?? null),
+        resolution: String(flightData.resolution),
+      });
+      if (format) params.set('format', format);
+
+      const response = await fetch(`/api/flight?${params}`, { method: 'POST', body: text });
+      const data: FlightRouteResponse = await response.json();
+
+      if (!data.success || !data.data) {
+        setTrackError(data.error || 'Failed to analyze track');
+        return;
+      }
+
+      const trackLeg = data.data;
+      setPlannedLegs((current) => ({ [activeLeg]: flightData, ...current }));
+      setLegs((current) => current.map((leg, index) => (index === activeLeg ? trackLeg : leg)));
+
+      // Keep the parsed track so the timeline replays the recorded positions and headings
+      const parsed = format ? parseFlightTrack(text, format) : parseFlightTrack(text);
+      if ('track' in parsed) {
+        // Measured from the ground, as the server analyzed it
+        const track = toHeightAboveGround(parsed.track, flightData.departure.elevation, flightData.arrival.elevation);
+        setTracks((current) => ({ ...current, [activeLeg]: track }));
+      }
+    } catch (err) {
+      setTrackError('Failed to upload track');
+      console.error('Track upload error:', err);
+    } finally {
+      setTrackUploading(false);
+    }
+  };
+
+  // Downloads come from the export endpoint, except for legs re-run over an
+  // uploaded track, which only this page knows about
+  const exportQuery = new URLSearchParams(
+    Object.entries(searchParams).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  );
+
+  const handleExport = (format: ExportFormat) => (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (Object.keys(tracks).length === 0) return;
+    e.preventDefault();
+
+    const options = { tracks: legs.map((_, index) => tracks[index]) };
+    const blob = format === 'kml'
+      ? new Blob([buildFlightKml(legs, options)], { type: 'application/vnd.google-earth.kml+xml' })
+      : new Blob([JSON.stringify(buildFlightGeoJson(legs, options))], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `horizonview-${[legs[0].departure.code, ...legs.map((leg) => leg.arrival.code)].join('-')}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleTrackReset = () => {
+    const plannedLeg = plannedLegs[activeLeg];
+    if (!plannedLeg) return;
+    setLegs((current) => current.map((leg, index) => (index === activeLeg ? plannedLeg : leg)));
+    setPlannedLegs((current) => {
+      const next = { ...current };
+      delete next[activeLeg];
+      return next;
+    });
+    setTracks((current) => {
+      const next = { ...current };
+      delete next[activeLeg];
+      return next;
+    });
+    setTrackError(null);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -122,8 +269,16 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
             <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
               <div className="flex-1">
                 <h1 className="text-2xl md:text-3xl lg:text-4xl font-bold mb-3 bg-gradient-to-r from-primary via-secondary to-primary bg-clip-text text-transparent bg-[length:200%_auto] animate-gradient">
-                  {flightData.departure.city} → {flightData.arrival.city}
+                  {[firstLeg.departure, ...legs.map((leg) => leg.arrival)].map((airport) => airport.city).join(' → ')}
                 </h1>
+                {departureNotes.filter((note) => note.status !== 'exact').map((note) => (
+                  <p key={note.utc} className="mb-3 text-xs text-amber-700 dark:text-amber-400">
+                    {note.local?.replace('T', ' ')} {note.status === 'gap'
+                      ? 'is skipped when clocks go forward'
+                      : 'happens twice when clocks go back'} in {note.timeZone}; departing at{' '}
+                    <LocalTime time={note.utc} timeZone={note.timeZone} format="dateTime" />.
+                  </p>
+                ))}
                 <div className="flex flex-wrap items-center gap-4 text-sm md:text-base text-foreground/80">
                   <div className="flex items-center gap-2">
                     <div className="w-8 h-8 rounded-lg bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center">
@@ -133,7 +288,7 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
                     </div>
                     <div>
                       <div className="text-[10px] text-foreground/60">Date</div>
-                      <div className="font-bold text-sm">{new Date(flightData.departureTime).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}</div>
+                      <div className="font-bold text-sm"><LocalTime time={flightData.departureTime} timeZone={flightData.departure.timezone} format="date" /></div>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -167,7 +322,7 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
                     <div className="text-[10px] text-foreground/60">Departure</div>
                     <div className="text-xs font-bold text-foreground">{flightData.departure.code}</div>
                     <div className="text-[10px] font-semibold text-primary">
-                      {new Date(flightData.departureTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      <LocalTime time={flightData.departureTime} timeZone={flightData.departure.timezone} />
                     </div>
                   </div>
                   <div className="w-px h-8 bg-primary/30"></div>
@@ -175,13 +330,61 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
                     <div className="text-[10px] text-foreground/60">Arrival</div>
                     <div className="text-xs font-bold text-foreground">{flightData.arrival.code}</div>
                     <div className="text-[10px] font-semibold text-primary">
-                      {new Date(flightData.arrivalTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      <LocalTime time={flightData.arrivalTime} timeZone={flightData.arrival.timezone} />
                     </div>
                   </div>
                 </div>
+                <div className="flex items-center justify-center gap-2 pt-2 border-t border-primary/20">
+                  <span className="text-[10px] text-foreground/60">Export</span>
+                  {(['geojson', 'kml'] as const).map((format) => (
+                    <a
+                      key={format}
+                      href={`/api/export?${exportQuery}&format=${format}`}
+                      download
+                      onClick={handleExport(format)}
+                      className="px-2 py-0.5 rounded-md border border-primary/30 text-[10px] font-semibold text-primary hover:bg-primary/10 transition-colors"
+                    >
+                      {format === 'kml' ? 'KML' : 'GeoJSON'}
+                    </a>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
+
+          {/* Leg selector for connecting itineraries */}
+          {legs.length > 1 && (
+            <div className="mt-4 flex flex-wrap items-stretch gap-2">
+              {legs.map((leg, index) => (
+                <React.Fragment key={`${leg.departure.code}-${leg.arrival.code}-${index}`}>
+                  {index > 0 && (
+                    <div className="flex items-center px-2 text-[10px] text-foreground/60">
+                      {Math.floor(layovers[index - 1].minutes / 60)}h {layovers[index - 1].minutes % 60}m in {layovers[index - 1].airport}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setActiveLeg(index)}
+                    className={`px-3 py-2 rounded-lg border-2 text-left transition-all ${index === activeLeg
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border hover:border-primary/40'
+                      }`}
+                  >
+                    <div className="text-xs font-bold text-foreground">
+                      Leg {index + 1}: {leg.departure.code} → {leg.arrival.code}
+                    </div>
+                    <div className="text-[10px] text-foreground/60">
+                      <LocalTime time={leg.departureTime} timeZone={leg.departure.timezone} />
+                      {' · '}
+                      {leg.sunData.recommendedSeats.length > 0
+                        ? `Seats ${leg.sunData.recommendedSeats.join(', ')}`
+                        : 'Any seat'}
+                    </div>
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
         </motion.div>
 
         {/* Premium Two-Column Layout - 65/35 split */}
@@ -210,10 +413,80 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
                   <div className="text-lg font-bold text-foreground">{flightData.bearing}°</div>
                 </div>
                 <div>
-                  <div className="text-[10px] text-foreground/60 mb-1">Best Side</div>
-                  <div className="text-lg font-bold text-primary">{flightData.sunData.scenicSide.toUpperCase()}</div>
+                  <div className="text-[10px] text-foreground/60 mb-1">
+                    {flightData.objective === 'shade' ? 'Shaded Side' : 'Best Side'}
+                  </div>
+                  <div className="text-lg font-bold text-primary">
+                    {(flightData.objective === 'shade' ? flightData.sunData.shadeSide : flightData.sunData.scenicSide).toUpperCase()}
+                  </div>
+                  {flightData.objective !== 'shade' && (
+                    <div className="text-[10px] text-foreground/60">
+                      L {flightData.sunData.scenicScore.left.score} · R {flightData.sunData.scenicScore.right.score} / 100
+                    </div>
+                  )}
                 </div>
               </div>
+              <div className="mt-3 pt-3 border-t border-border text-[10px] text-foreground/60 leading-relaxed">
+                <strong className="text-foreground/80">
+                  {flightData.track?.timed ? 'Duration from track:' : 'Duration estimate:'}
+                </strong>{' '}
+                taxi {flightData.durationModel.taxiOutMinutes} + {flightData.durationModel.taxiInMinutes} min,
+                climb {flightData.durationModel.climbMinutes} min,
+                cruise {flightData.durationModel.cruiseMinutes} min at {flightData.durationModel.cruiseSpeed} km/h,
+                descent {flightData.durationModel.descentMinutes} min;{' '}
+                {flightData.durationModel.averageWind >= 0 ? 'tailwind' : 'headwind'} {Math.abs(flightData.durationModel.averageWind)} km/h
+                ({flightData.durationModel.windSeason} jet-stream climatology)
+                {flightData.wind && (
+                  <>
+                    ; crabbing up to {flightData.wind.maxCorrectionAngle}° into the{' '}
+                    {flightData.wind.field.source === 'uniform'
+                      ? `${flightData.wind.field.speed} km/h wind from ${flightData.wind.field.direction}°`
+                      : 'climatological wind'}
+                  </>
+                )}
+              </div>
+              {(flightData.runways.departure || flightData.runways.arrival) && (
+                <div className="mt-3 pt-3 border-t border-border text-[10px] text-foreground/60 leading-relaxed">
+                  <strong className="text-foreground/80">Runways:</strong>{' '}
+                  {([
+                    ['takeoff from', flightData.runways.departure],
+                    ['landing on', flightData.runways.arrival],
+                  ] as const)
+                    .filter(([, runway]) => runway)
+                    .map(([action, runway]) =>
+                      `${action} ${runway!.ident} (${runway!.heading}°, ${runway!.source === 'chosen' ? 'chosen' : 'into the prevailing wind'})`
+                    )
+                    .join(' · ')}
+                </div>
+              )}
+              <div className="mt-3 pt-3 border-t border-border flex flex-wrap items-center gap-2 text-[10px] text-foreground/60">
+                <strong className="text-foreground/80">Route:</strong>
+                <span>
+                  {flightData.track
+                    ? `Uploaded ${flightData.track.format.toUpperCase()} track, ${flightData.track.points.toLocaleString()} points${flightData.track.timed ? '' : ' (no timestamps)'}${flightData.track.hasHeading ? ', recorded headings' : ''}`
+                    : 'Planned shortest path'}
+                </span>
+                <label className="cursor-pointer px-2 py-1 rounded-md border border-border hover:border-primary/40 text-foreground/80 transition-colors">
+                  {trackUploading ? 'Analyzing…' : 'Upload flown track'}
+                  <input
+                    type="file"
+                    accept=".gpx,.kml,.geojson,.json,.csv"
+                    className="hidden"
+                    onChange={handleTrackUpload}
+                    disabled={trackUploading}
+                  />
+                </label>
+                {plannedLegs[activeLeg] && (
+                  <button
+                    type="button"
+                    onClick={handleTrackReset}
+                    className="px-2 py-1 rounded-md border border-border hover:border-primary/40 text-foreground/80 transition-colors"
+                  >
+                    Use planned route
+                  </button>
+                )}
+                {trackError && <span className="text-red-500">{trackError}</span>}
+              </div>
             </motion.div>
 
             {/* Map - Fixed Height to Fit Screen */}
@@ -224,11 +497,15 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
               transition={{ duration: 0.6, delay: 0.3 }}
             >
               <Map2D
-                departureLat={flightData.departure.lat}
-                departureLng={flightData.departure.lng}
-                arrivalLat={flightData.arrival.lat}
-                arrivalLng={flightData.arrival.lng}
-                path={flightData.path}
+                departureLat={firstLeg.departure.lat}
+                departureLng={firstLeg.departure.lng}
+                arrivalLat={lastLeg.arrival.lat}
+                arrivalLng={lastLeg.arrival.lng}
+                legs={legs.map((leg) => leg.path)}
+                landmarks={legs.flatMap((leg) => leg.landmarks.map((landmark) => ({
+                  ...landmark,
+                  timeZone: getLegTimeZone(leg, landmark.time),
+                })))}
               />
             </motion.div>
 
@@ -239,15 +516,32 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
               transition={{ duration: 0.6, delay: 0.5 }}
             >
               <SunFlightTimeline
-                departureTime={new Date(flightData.departureTime)}
-                arrivalTime={new Date(flightData.arrivalTime)}
-                flightDuration={flightData.duration}
+                key={activeLeg}
+                departureTime={new Date(flightData.takeoffTime)}
+                arrivalTime={new Date(flightData.landingTime)}
+                flightDuration={flightData.durationModel.airborneDuration}
                 path={flightData.path}
                 scenicSide={flightData.sunData.scenicSide}
                 departureLat={flightData.departure.lat}
                 departureLng={flightData.departure.lng}
                 arrivalLat={flightData.arrival.lat}
                 arrivalLng={flightData.arrival.lng}
+                departureTimeZone={flightData.departure.timezone}
+                arrivalTimeZone={flightData.arrival.timezone}
+                cruiseAltitude={flightData.cruiseAltitude}
+                earthModel={flightData.earthModel}
+                track={tracks[activeLeg]}
+                wind={flightData.wind?.field}
+                runways={flightData.runways}
+                daylightStatus={flightData.sunData.daylightStatus}
+                moonSide={flightData.moonData.visibleSide}
+                moonPhaseName={flightData.moonData.phaseName}
+                moonIllumination={flightData.moonData.illumination}
+                lightSegments={flightData.sunData.lightSegments.map((segment) => ({
+                  ...segment,
+                  start: new Date(segment.start),
+                  end: new Date(segment.end),
+                }))}
               />
             </motion.div>
           </div>
@@ -264,6 +558,9 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
               <AirplaneSeats
                 scenicSide={flightData.sunData.scenicSide}
                 recommendedSeats={flightData.sunData.recommendedSeats}
+                moonSide={flightData.moonData.visibleSide}
+                objective={flightData.objective}
+                shadeSide={flightData.sunData.shadeSide}
               />
             </motion.div>
 
@@ -276,6 +573,11 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
               <SeatLegend
                 scenicSide={flightData.sunData.scenicSide}
                 recommendedSeats={flightData.sunData.recommendedSeats}
+                objective={flightData.objective}
+                shadeSide={flightData.sunData.shadeSide}
+                exposure={flightData.sunData.exposure}
+                scenicScore={flightData.sunData.scenicScore}
+                getTimeZone={(time) => getLegTimeZone(flightData, time)}
               />
             </motion.div>
           </div>
@@ -297,12 +599,9 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
               </div>
               <div className="font-bold text-lg mb-1 text-foreground">{flightData.departure.city}</div>
               <div className="text-sm text-foreground/60 mb-2">{flightData.departure.name}</div>
-              <div className="text-sm font-medium text-foreground/80">{new Date(flightData.departureTime).toLocaleString('en-US', {
-                month: 'short',
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit'
-              })}</div>
+              <div className="text-sm font-medium text-foreground/80">
+                <LocalTime time={flightData.departureTime} timeZone={flightData.departure.timezone} format="dateTime" />
+              </div>
             </div>
             <div className="p-4 rounded-lg bg-gradient-to-br from-red-50 to-red-100/50 dark:from-red-900/20 dark:to-red-800/10 border border-red-200 dark:border-red-800">
               <div className="flex items-center gap-2 mb-3">
@@ -311,12 +610,9 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
               </div>
               <div className="font-bold text-lg mb-1 text-foreground">{flightData.arrival.city}</div>
               <div className="text-sm text-foreground/60 mb-2">{flightData.arrival.name}</div>
-              <div className="text-sm font-medium text-foreground/80">{new Date(flightData.arrivalTime).toLocaleString('en-US', {
-                month: 'short',
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit'
-              })}</div>
+              <div className="text-sm font-medium text-foreground/80">
+                <LocalTime time={flightData.arrivalTime} timeZone={flightData.arrival.timezone} format="dateTime" />
+              </div>
             </div>
             <div className="p-4 rounded-lg bg-gradient-to-br from-amber-50 to-orange-100/50 dark:from-amber-900/20 dark:to-orange-800/10 border border-amber-200 dark:border-amber-800">
               <div className="flex items-center gap-2 mb-3">
@@ -325,16 +621,36 @@ export default function VisualizeClient({ searchParams }: VisualizeClientProps)
                 </svg>
                 <div className="font-semibold text-sm text-foreground/70 uppercase tracking-wide">Sun Information</div>
               </div>
-              <div className="space-y-2">
-                <div>
-                  <div className="text-xs text-foreground/60 mb-1">Sunrise</div>
-                  <div className="font-semibold text-foreground">{new Date(flightData.sunData.sunriseTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+              {flightData.sunData.daylightStatus === 'midnightSun' ? (
+                <div className="text-sm text-foreground/80">
+                  <div className="font-semibold text-foreground mb-1">Midnight sun</div>
+                  The sun never sets on this route — it stays above the horizon for the whole flight.
                 </div>
-                <div>
-                  <div className="text-xs text-foreground/60 mb-1">Sunset</div>
-                  <div className="font-semibold text-foreground">{new Date(flightData.sunData.sunsetTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+              ) : flightData.sunData.daylightStatus === 'polarNight' ? (
+                <div className="text-sm text-foreground/80">
+                  <div className="font-semibold text-foreground mb-1">Polar night</div>
+                  The sun never rises on this route — it stays below the horizon for the whole flight.
                 </div>
-              </div>
+              ) : (
+                <div className="space-y-2">
+                  <div>
+                    <div className="text-xs text-foreground/60 mb-1">Sunrise</div>
+                    <div className="font-semibold text-foreground">
+                      {flightData.sunData.sunriseTime
+                        ? <LocalTime time={flightData.sunData.sunriseTime} timeZone={getLegTimeZone(flightData, flightData.sunData.sunriseTime)} />
+                        : 'No sunrise'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-foreground/60 mb-1">Sunset</div>
+                    <div className="font-semibold text-foreground">
+                      {flightData.sunData.sunsetTime
+                        ? <LocalTime time={flightData.sunData.sunsetTime} timeZone={getLegTimeZone(flightData, flightData.sunData.sunsetTime)} />
+                        : 'No sunset'}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </motion.div>
@@ -5,6 +5,16 @@ interface SearchParams {
   from?: string;
   to?: string;
   dt?: string;
+  tz?: string;
+  dst?: string;
+  alt?: string;
+  objective?: string;
+  wind?: string;
+  resolution?: string;
+  depRunway?: string;
+  arrRunway?: string;
+  via?: string;
+  layovers?: string;
 }
 
 interface PageProps {
@@ -22,6 +32,16 @@ export default async function VisualizePage({ searchParams }: PageProps) {
   return <VisualizeClient searchParams={{
     from: params.from,
     to: params.to,
-    dt: params.dt
+    dt: params.dt,
+    tz: params.tz,
+    dst: params.dst,
+    alt: params.alt,
+    objective: params.objective,
+    wind: params.wind,
+    resolution: params.resolution,
+    depRunway: params.depRunway,
+    arrRunway: params.arrRunway,
+    via: params.via,
+    layovers: params.layovers
   }} />;
 }
@@ -2,10 +2,14 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
+import { SeatObjective } from '@/lib/sun';
 
 interface AirplaneSeatsProps {
   scenicSide: 'left' | 'right' | 'both' | 'none';
   recommendedSeats: string[]; // accepts 'A','F' or '12A' forms
+  moonSide?: 'left' | 'right' | 'both' | 'none'; // side the moon is visible from
+  objective?: SeatObjective; // 'shade' highlights recommended seats as shaded
+  shadeSide?: 'left' | 'right' | 'both'; // side with the least direct sun
   rows?: number; // minimum rows (defaults to 20)
   onSelect?: (seatId: string) => void;
 }
@@ -30,6 +34,9 @@ interface Seat {
 export default function AirplaneSeats({
   scenicSide,
   recommendedSeats,
+  moonSide = 'none',
+  objective = 'scenic',
+  shadeSide,
   rows: minRows = 20,
   onSelect,
 }: AirplaneSeatsProps) {
@@ -89,6 +96,9 @@ export default function AirplaneSeats({
   const isRecommended = (s: Seat) =>
     recommendedSeats.includes(s.id) || recommendedSeats.includes(s.letter);
 
+  const isShadeMode = objective === 'shade';
+  const recommendedLabel = isShadeMode ? 'shaded' : 'scenic';
+
   const handleSelect = (id: string) => {
     setSelected((prev) => (prev === id ? null : id));
     onSelect?.(id);
@@ -99,6 +109,11 @@ export default function AirplaneSeats({
     const base = 'rounded-lg border-2 flex items-center justify-center select-none font-semibold cursor-pointer transition-all duration-200';
     const size = 'w-6 h-6 text-[10px]';
 
+    // Shaded window seat (recommended in shade mode) - indigo for shade
+    if (recWindow && s.type === 'window' && isShadeMode) {
+      return `${base} ${size} bg-indigo-300 dark:bg-indigo-500 border-indigo-500 dark:border-indigo-400 text-indigo-900 dark:text-indigo-950 shadow-sm`;
+    }
+
     // Scenic window seat (recommended) - yellow for sun
     if (recWindow && s.type === 'window') {
       return `${base} ${size} glow-seat bg-yellow-400 dark:bg-yellow-500 border-yellow-500 dark:border-yellow-400 text-yellow-900 dark:text-yellow-950 shadow-sm`;
@@ -122,6 +137,14 @@ export default function AirplaneSeats({
   const columnHeaders = ['LW', 'C', 'LA', 'RA', 'C', 'RW'];
   const seatLetters = ['A', 'B', 'C', 'D', 'E', 'F'];
 
+  const moonOnLeft = moonSide === 'left' || moonSide === 'both';
+  const moonOnRight = moonSide === 'right' || moonSide === 'both';
+  const moonMarker = (
+    <span className="text-sm" title="Moon visible from this side" aria-label="Moon visible from this side">
+      🌙
+    </span>
+  );
+
   return (
     <div ref={containerRef} className="card-elevated p-3 h-full flex flex-col bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-lg dark:shadow-xl">
       {/* Title */}
@@ -149,8 +172,10 @@ export default function AirplaneSeats({
               margin: '0 auto',
             }}
           >
-            {/* left blank for row numbers */}
-            <div />
+            {/* left blank for row numbers (moon marker when visible on the left) */}
+            <div className="flex items-center justify-center" style={{ gridColumn: 1 }}>
+              {moonOnLeft && moonMarker}
+            </div>
             {/* six headers - each in its own column to match seats, centered */}
             {columnHeaders.map((h, idx) => (
               <div
@@ -161,8 +186,10 @@ export default function AirplaneSeats({
                 {h}
               </div>
             ))}
-            {/* right blank */}
-            <div style={{ gridColumn: 8 }} />
+            {/* right blank (moon marker when visible on the right) */}
+            <div className="flex items-center justify-center" style={{ gridColumn: 8 }}>
+              {moonOnRight && moonMarker}
+            </div>
           </div>
 
           {/* Seats viewport */}
@@ -217,7 +244,7 @@ export default function AirplaneSeats({
                           onBlur={() => setHovered(null)}
                           onClick={() => handleSelect(s.id)}
                           className={seatClass(s, isRecommended(s) && s.type === 'window')}
-                          aria-label={`${s.id} ${s.type} seat ${isRecommended(s) && s.type === 'window' ? 'scenic' : ''}`}
+                          aria-label={`${s.id} ${s.type} seat ${isRecommended(s) && s.type === 'window' ? recommendedLabel : ''}`}
                           style={{
                             gridColumn: colMap[s.letter],
                             gridRow: rowNum,
@@ -255,10 +282,19 @@ export default function AirplaneSeats({
             </div>
 
             <div className="flex items-center gap-3">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-sm shadow-sm bg-yellow-400 dark:bg-yellow-500" aria-hidden />
-                <div className="text-[11px] text-slate-700 dark:text-slate-300">Scenic Window</div>
-              </div>
+              {isShadeMode ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm shadow-sm bg-indigo-300 dark:bg-indigo-500" aria-hidden />
+                  <div className="text-[11px] text-slate-700 dark:text-slate-300">
+                    Shaded Window{shadeSide === 'both' ? ' (either side)' : ''}
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm shadow-sm bg-yellow-400 dark:bg-yellow-500" aria-hidden />
+                  <div className="text-[11px] text-slate-700 dark:text-slate-300">Scenic Window</div>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-sm shadow-sm bg-blue-50 dark:bg-blue-900/20 border border-blue-500 dark:border-blue-400" aria-hidden />
                 <div className="text-[11px] text-slate-700 dark:text-slate-300">Window Seat</div>
@@ -271,6 +307,12 @@ export default function AirplaneSeats({
                 <div className="w-3 h-3 rounded-sm shadow-sm bg-gray-50 dark:bg-gray-800/50" aria-hidden />
                 <div className="text-[11px] text-slate-700 dark:text-slate-300">Middle Seat</div>
               </div>
+              {moonSide !== 'none' && (
+                <div className="flex items-center gap-2">
+                  <div className="text-[11px]" aria-hidden>🌙</div>
+                  <div className="text-[11px] text-slate-700 dark:text-slate-300">Moon Side</div>
+                </div>
+              )}
             </div>
           </div>
         </div>
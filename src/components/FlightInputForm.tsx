@@ -2,14 +2,134 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { searchAirports, getPopularAirports, Airport } from '@/lib/cities';
+// Types only: the airport dataset and search stay on the server, behind /api/airports
+import type { Airport } from '@/lib/cities';
+import type { AirportSearchMatch, AirportSearchResult } from '@/lib/search';
+import { SeatObjective } from '@/lib/sun';
+import { selectRunwayEnd } from '@/lib/runway';
+import { formatZonedTime, resolveZonedTime, ZonedTimeResolution } from '@/lib/time';
+import { AirportsRouteResponse } from '@/app/api/airports/route';
+import { NearestAirportsRouteResponse } from '@/app/api/airports/nearest/route';
 import { useRouter } from 'next/navigation';
 
 interface FormData {
   from: string;
   to: string;
-  date: string;
+  date: string; // wall-clock date and time at the departure airport
   time: string;
+  dst: 'earlier' | 'later'; // which of two repeated times when clocks go back
+  objective: SeatObjective;
+  via: string; // optional connecting airports, comma-separated codes
+  layover: string; // minutes at each connection
+  windDirection: string; // optional uniform wind at cruise, degrees it blows from
+  windSpeed: string; // km/h
+  depRunway: string; // runway designators; empty picks by the prevailing wind
+  arrRunway: string;
+}
+
+const OBJECTIVE_OPTIONS: { value: SeatObjective; label: string; description: string }[] = [
+  { value: 'scenic', label: '🌅 Scenic views', description: 'Sit where the sunrise and sunset are' },
+  { value: 'shade', label: '🌥️ Shade', description: 'Avoid glare to sleep, work or stay cool' },
+];
+
+/**
+ * Read the form's date and time as wall-clock time in the departure airport's timezone
+ * @returns The instant and whether a DST change skips or repeats that time, or null if incomplete
+ */
+const resolveDepartureInput = (
+  date: string,
+  time: string,
+  timeZone: string,
+  dst: 'earlier' | 'later'
+): ZonedTimeResolution | null => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  if ([year, month, day, hour, minute].some((part) => !Number.isFinite(part))) return null;
+  // 'compatible' takes the earlier repeated time; both read a skipped time forward
+  const resolved = resolveZonedTime(year, month, day, hour, minute, timeZone, dst === 'later' ? 'later' : 'compatible');
+  return 'error' in resolved ? null : resolved;
+};
+
+const SEARCH_RESULT_COUNT = 8;
+
+/**
+ * Fetch a page of airports from the search endpoint
+ * @param params Query parameters, e.g. `{ q: 'zurich' }` or `{ popular: 'true' }`
+ * @returns The results, or null when the request failed or was aborted
+ */
+const fetchAirportResults = async (
+  params: Record<string, string>,
+  signal?: AbortSignal
+): Promise<AirportSearchResult[] | null> => {
+  try {
+    const query = new URLSearchParams({ ...params, pageSize: String(SEARCH_RESULT_COUNT) });
+    const response = await fetch(`/api/airports?${query}`, { signal });
+    const data: AirportsRouteResponse = await response.json();
+    return data.success && data.data ? data.data.results : [];
+  } catch (err) {
+    if (!signal?.aborted) console.error('Airport search error:', err);
+    return null;
+  }
+};
+
+/**
+ * Text with the characters a search matched in bold
+ */
+function HighlightedText({ text, matches }: { text: string; matches: AirportSearchMatch[] }) {
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const match of matches) marked.fill(true, match.start, match.end);
+
+  const parts: { text: string; marked: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = parts[parts.length - 1];
+    if (last && last.marked === marked[i]) last.text += text[i];
+    else parts.push({ text: text[i], marked: marked[i] });
+  }
+
+  return (
+    <>
+      {parts.map((part, index) => part.marked
+        ? <mark key={index} className="bg-transparent text-primary font-semibold">{part.text}</mark>
+        : <span key={index}>{part.text}</span>)}
+    </>
+  );
+}
+
+/**
+ * One dropdown row: city and code, then the airport name, with the matched parts highlighted
+ */
+function AirportOption({ result }: { result: AirportSearchResult }) {
+  const { airport, matches } = result;
+  const inField = (field: AirportSearchMatch['field']) => matches.filter((match) => match.field === field);
+  const aliasMatch = inField('alias')[0];
+  const countryMatches = inField('country');
+
+  return (
+    <>
+      <div className="font-medium">
+        <HighlightedText text={airport.city} matches={inField('city')} />
+        {' ('}<HighlightedText text={airport.code} matches={inField('code')} />)
+        {aliasMatch && (
+          <span className="ml-2 text-xs text-foreground/60">
+            <HighlightedText text={aliasMatch.text} matches={inField('alias').filter((match) => match.text === aliasMatch.text)} />
+          </span>
+        )}
+      </div>
+      <div className="text-sm text-foreground/70">
+        <HighlightedText text={airport.name} matches={inField('name')} />
+        {airport.icao && (
+          <span className="ml-1 text-foreground/50">
+            · <HighlightedText text={airport.icao} matches={inField('icao')} />
+          </span>
+        )}
+        {countryMatches.length > 0 && (
+          <span className="ml-1 text-foreground/50">
+            · <HighlightedText text={airport.country} matches={countryMatches} />
+          </span>
+        )}
+      </div>
+    </>
+  );
 }
 
 export default function FlightInputForm() {
@@ -23,6 +143,14 @@ export default function FlightInputForm() {
       to: '',
       date: futureTime.toISOString().split('T')[0],
       time: futureTime.toTimeString().slice(0, 5),
+      dst: 'earlier',
+      objective: 'scenic',
+      via: '',
+      layover: '120',
+      windDirection: '',
+      windSpeed: '',
+      depRunway: '',
+      arrRunway: '',
     };
   };
 
@@ -30,59 +158,112 @@ export default function FlightInputForm() {
 
   const [fromSearch, setFromSearch] = useState('');
   const [toSearch, setToSearch] = useState('');
-  const [fromResults, setFromResults] = useState<Airport[]>([]);
-  const [toResults, setToResults] = useState<Airport[]>([]);
+  const [fromResults, setFromResults] = useState<AirportSearchResult[]>([]);
+  const [toResults, setToResults] = useState<AirportSearchResult[]>([]);
+  const [popularResults, setPopularResults] = useState<AirportSearchResult[]>([]);
+  // The selected airports, as the search returned them
+  const [fromAirport, setFromAirport] = useState<Airport | null>(null);
+  const [toAirport, setToAirport] = useState<Airport | null>(null);
   const [showFromDropdown, setShowFromDropdown] = useState(false);
   const [showToDropdown, setShowToDropdown] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
   const [error, setError] = useState('');
 
   const fromRef = useRef<HTMLInputElement>(null);
   const toRef = useRef<HTMLInputElement>(null);
 
-  // Show popular airports initially
-  // eslint-disable-next-line react-hooks/set-state-in-effect
+  // Popular airports are shown before anything is typed
   useEffect(() => {
-    setFromResults(getPopularAirports());
-    setToResults(getPopularAirports());
+    const controller = new AbortController();
+    fetchAirportResults({ popular: 'true' }, controller.signal).then((results) => {
+      if (results) setPopularResults(results);
+    });
+    return () => controller.abort();
   }, []);
 
-  // Handle airport search
+  // Handle airport search; a newer query aborts the request of the last one,
+  // and an empty one shows the popular airports
   // eslint-disable-next-line react-hooks/set-state-in-effect
   useEffect(() => {
-    if (fromSearch.trim()) {
-      const results = searchAirports(fromSearch);
-      setFromResults(results.slice(0, 8)); // Limit to 8 results
-      setShowFromDropdown(true);
-    } else {
-      setFromResults(getPopularAirports());
-      setShowFromDropdown(false);
-    }
+    const query = fromSearch.trim();
+    setShowFromDropdown(query !== '');
+    if (!query) return;
+
+    const controller = new AbortController();
+    fetchAirportResults({ q: query }, controller.signal).then((results) => {
+      if (results) setFromResults(results);
+    });
+    return () => controller.abort();
   }, [fromSearch]);
 
   // eslint-disable-next-line react-hooks/set-state-in-effect
   useEffect(() => {
-    if (toSearch.trim()) {
-      const results = searchAirports(toSearch);
-      setToResults(results.slice(0, 8));
-      setShowToDropdown(true);
-    } else {
-      setToResults(getPopularAirports());
-      setShowToDropdown(false);
-    }
+    const query = toSearch.trim();
+    setShowToDropdown(query !== '');
+    if (!query) return;
+
+    const controller = new AbortController();
+    fetchAirportResults({ q: query }, controller.signal).then((results) => {
+      if (results) setToResults(results);
+    });
+    return () => controller.abort();
   }, [toSearch]);
 
   const selectAirport = (airport: Airport, field: 'from' | 'to') => {
-    setFormData(prev => ({ ...prev, [field]: airport.code }));
+    // Runways belong to the airport they were picked at
+    setFormData(prev => ({ ...prev, [field]: airport.code, [field === 'from' ? 'depRunway' : 'arrRunway']: '' }));
     if (field === 'from') {
+      setFromAirport(airport);
       setFromSearch(`${airport.city} (${airport.code})`);
       setShowFromDropdown(false);
     } else {
+      setToAirport(airport);
       setToSearch(`${airport.city} (${airport.code})`);
       setShowToDropdown(false);
     }
   };
 
+  // Fill the departure airport with the one nearest to the browser's location
+  const locateDeparture = () => {
+    if (!navigator.geolocation) {
+      setError('Location is not available in this browser');
+      return;
+    }
+
+    setError('');
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          const { latitude, longitude } = position.coords;
+          const response = await fetch(`/api/airports/nearest?lat=${latitude}&lng=${longitude}&limit=1`);
+          const data: NearestAirportsRouteResponse = await response.json();
+
+          if (!data.success || !data.data?.length) {
+            setError(data.error || 'No airport found near your location');
+          } else {
+            selectAirport(data.data[0], 'from');
+          }
+        } catch (err) {
+          console.error('Nearest airport error:', err);
+          setError('Failed to find the nearest airport');
+        }
+        setIsLocating(false);
+      },
+      () => {
+        setError('Could not get your location');
+        setIsLocating(false);
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
+  // The departure time is entered in the departure airport's local time
+  const localDeparture = fromAirport
+    ? resolveDepartureInput(formData.date, formData.time, fromAirport.timezone, formData.dst)
+    : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -107,11 +288,23 @@ export default function FlightInputForm() {
       return;
     }
 
+    // A uniform wind needs both parts; leaving both empty uses the climatology
+    const hasWindDirection = formData.windDirection.trim() !== '';
+    const hasWindSpeed = formData.windSpeed.trim() !== '';
+    if (hasWindDirection !== hasWindSpeed) {
+      setError('Enter both a wind direction and a wind speed, or neither');
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
-      // Combine date and time
-      const departureDateTime = new Date(`${formData.date}T${formData.time}`);
+      if (!fromAirport || !localDeparture) {
+        setError('Invalid date or time format');
+        setIsSubmitting(false);
+        return;
+      }
 
-      if (departureDateTime <= new Date()) {
+      if (localDeparture.instant <= new Date()) {
         setError('Departure time must be in the future');
         setIsSubmitting(false);
         return;
@@ -121,9 +314,28 @@ export default function FlightInputForm() {
       const params = new URLSearchParams({
         from: formData.from,
         to: formData.to,
-        dt: departureDateTime.toISOString(),
+        dt: `${formData.date}T${formData.time}`,
+        tz: fromAirport.timezone,
+        objective: formData.objective,
       });
 
+      if (localDeparture.status === 'overlap' && formData.dst === 'later') {
+        params.set('dst', 'later');
+      }
+
+      const via = formData.via.split(',').map(code => code.trim().toUpperCase()).filter(Boolean);
+      if (via.length > 0) {
+        params.set('via', via.join(','));
+        params.set('layovers', via.map(() => formData.layover || '120').join(','));
+      }
+
+      if (hasWindDirection && hasWindSpeed) {
+        params.set('wind', `${Number(formData.windDirection) % 360}@${Number(formData.windSpeed)}`);
+      }
+
+      if (formData.depRunway) params.set('depRunway', formData.depRunway);
+      if (formData.arrRunway) params.set('arrRunway', formData.arrRunway);
+
       router.push(`/visualize?${params.toString()}`);
     } catch {
       setError('Invalid date or time format');
@@ -147,7 +359,17 @@ export default function FlightInputForm() {
         
         {/* From Airport */}
         <div className="relative">
-          <label className="block text-sm font-semibold mb-2.5 text-foreground">Departure Airport</label>
+          <div className="flex items-center justify-between mb-2.5">
+            <label className="block text-sm font-semibold text-foreground">Departure Airport</label>
+            <button
+              type="button"
+              onClick={locateDeparture}
+              disabled={isLocating}
+              className="text-xs font-medium text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              {isLocating ? 'Locating...' : '📍 Use my location'}
+            </button>
+          </div>
           <div className="relative">
             <input
               ref={fromRef}
@@ -171,15 +393,14 @@ export default function FlightInputForm() {
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -10 }}
               >
-                {fromResults.map((airport) => (
+                {(fromSearch.trim() ? fromResults : popularResults).map((result) => (
                   <button
-                    key={airport.code}
+                    key={result.airport.code}
                     type="button"
-                    onClick={() => selectAirport(airport, 'from')}
+                    onClick={() => selectAirport(result.airport, 'from')}
                     className="w-full px-4 py-3 text-left hover:bg-primary/10 dark:hover:bg-primary/20 transition-colors first:rounded-t-xl last:rounded-b-xl border-b border-border/50 last:border-b-0"
                   >
-                    <div className="font-medium">{airport.city} ({airport.code})</div>
-                    <div className="text-sm text-foreground/70">{airport.name}</div>
+                    <AirportOption result={result} />
                   </button>
                 ))}
               </motion.div>
@@ -213,15 +434,14 @@ export default function FlightInputForm() {
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -10 }}
               >
-                {toResults.map((airport) => (
+                {(toSearch.trim() ? toResults : popularResults).map((result) => (
                   <button
-                    key={airport.code}
+                    key={result.airport.code}
                     type="button"
-                    onClick={() => selectAirport(airport, 'to')}
+                    onClick={() => selectAirport(result.airport, 'to')}
                     className="w-full px-4 py-3 text-left hover:bg-primary/10 dark:hover:bg-primary/20 transition-colors first:rounded-t-xl last:rounded-b-xl border-b border-border/50 last:border-b-0"
                   >
-                    <div className="font-medium">{airport.city} ({airport.code})</div>
-                    <div className="text-sm text-foreground/70">{airport.name}</div>
+                    <AirportOption result={result} />
                   </button>
                 ))}
               </motion.div>
@@ -252,6 +472,155 @@ export default function FlightInputForm() {
               suppressHydrationWarning
             />
           </div>
+          {fromAirport && (
+            <div className="md:col-span-2 -mt-2 text-xs text-foreground/60 space-y-2">
+              <p>Local time at {fromAirport.city} ({fromAirport.timezone})</p>
+              {localDeparture?.status === 'gap' && (
+                <p className="text-amber-600 dark:text-amber-400">
+                  Clocks go forward that night, so {formData.time} never happens in {fromAirport.city}.
+                  The flight is read as departing at {formatZonedTime(localDeparture.instant, fromAirport.timezone)}.
+                </p>
+              )}
+              {localDeparture?.status === 'overlap' && (
+                <div className="text-amber-600 dark:text-amber-400">
+                  <p className="mb-1.5">Clocks go back that night, so {formData.time} happens twice in {fromAirport.city}. Which one?</p>
+                  <div className="flex gap-2" role="radiogroup">
+                    {(['earlier', 'later'] as const).map((dst) => {
+                      const option = resolveDepartureInput(formData.date, formData.time, fromAirport.timezone, dst);
+                      return (
+                        <button
+                          key={dst}
+                          type="button"
+                          role="radio"
+                          aria-checked={formData.dst === dst}
+                          onClick={() => setFormData(prev => ({ ...prev, dst }))}
+                          className={`px-3 py-1 rounded-lg border-2 font-medium transition-all ${formData.dst === dst
+                            ? 'border-primary bg-primary/10 text-foreground'
+                            : 'border-border text-foreground/70 hover:border-primary/40'
+                            }`}
+                        >
+                          {dst === 'earlier' ? 'First' : 'Second'}
+                          {option && ` (${formatZonedTime(option.instant, fromAirport.timezone)})`}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Connections */}
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2.5 text-foreground">Connecting Via (optional)</label>
+            <input
+              type="text"
+              value={formData.via}
+              onChange={(e) => setFormData(prev => ({ ...prev, via: e.target.value }))}
+              placeholder="e.g. DXB or DXB, SIN"
+              className="w-full px-4 py-3.5 rounded-xl border-2 border-border bg-card-bg text-foreground placeholder:text-foreground/40 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all shadow-sm hover:border-primary/50"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2.5 text-foreground">Layover (min)</label>
+            <input
+              type="number"
+              min={0}
+              step={15}
+              value={formData.layover}
+              onChange={(e) => setFormData(prev => ({ ...prev, layover: e.target.value }))}
+              disabled={!formData.via.trim()}
+              className="w-full px-4 py-3.5 rounded-xl border-2 border-border bg-card-bg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all shadow-sm hover:border-primary/50 disabled:opacity-50"
+            />
+          </div>
+        </div>
+
+        {/* Wind at cruise */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2.5 text-foreground">Wind From (°, optional)</label>
+            <input
+              type="number"
+              min={0}
+              max={360}
+              step={10}
+              value={formData.windDirection}
+              onChange={(e) => setFormData(prev => ({ ...prev, windDirection: e.target.value }))}
+              placeholder="e.g. 270 for a westerly"
+              className="w-full px-4 py-3.5 rounded-xl border-2 border-border bg-card-bg text-foreground placeholder:text-foreground/40 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all shadow-sm hover:border-primary/50"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2.5 text-foreground">Wind Speed (km/h)</label>
+            <input
+              type="number"
+              min={0}
+              max={500}
+              step={10}
+              value={formData.windSpeed}
+              onChange={(e) => setFormData(prev => ({ ...prev, windSpeed: e.target.value }))}
+              placeholder="Seasonal jet stream if empty"
+              className="w-full px-4 py-3.5 rounded-xl border-2 border-border bg-card-bg text-foreground placeholder:text-foreground/40 focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all shadow-sm hover:border-primary/50"
+            />
+          </div>
+        </div>
+
+        {/* Runways for takeoff and landing */}
+        {(fromAirport?.runways.length || toAirport?.runways.length) ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([
+              { field: 'depRunway', airport: fromAirport, label: 'Takeoff Runway' },
+              { field: 'arrRunway', airport: toAirport, label: 'Landing Runway' },
+            ] as const).map(({ field, airport, label }) => (
+              <div key={field}>
+                <label className="block text-sm font-semibold mb-2.5 text-foreground">
+                  {label}{airport && ` at ${airport.code}`}
+                </label>
+                <select
+                  value={formData[field]}
+                  onChange={(e) => setFormData(prev => ({ ...prev, [field]: e.target.value }))}
+                  disabled={!airport?.runways.length}
+                  className="w-full px-4 py-3.5 rounded-xl border-2 border-border bg-card-bg text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all shadow-sm hover:border-primary/50 disabled:opacity-50"
+                >
+                  <option value="">
+                    {airport?.runways.length
+                      ? `Into the prevailing wind (${selectRunwayEnd(airport)?.ident})`
+                      : 'No runway data'}
+                  </option>
+                  {airport?.runways.flatMap((runway) => runway.ends).map((end) => (
+                    <option key={end.ident} value={end.ident}>
+                      {end.ident} (heading {end.heading}°)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {/* Seat objective */}
+        <div>
+          <label className="block text-sm font-semibold mb-2.5 text-foreground">Window Preference</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4" role="radiogroup">
+            {OBJECTIVE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                role="radio"
+                aria-checked={formData.objective === option.value}
+                onClick={() => setFormData(prev => ({ ...prev, objective: option.value }))}
+                className={`px-4 py-3 rounded-xl border-2 text-left transition-all shadow-sm ${formData.objective === option.value
+                  ? 'border-primary bg-primary/10'
+                  : 'border-border bg-card-bg hover:border-primary/50'
+                  }`}
+              >
+                <div className="font-medium text-foreground">{option.label}</div>
+                <div className="text-sm text-foreground/70">{option.description}</div>
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Error Message */}
@@ -3,6 +3,7 @@
 import React from 'react';
 import SunFlightTimeline from '@/components/SunFlightTimeline';
 import { calculateFlightSunData, getRecommendedSeats } from '@/lib/sun';
+import { RoutePath } from '@/lib/geo';
 
 interface FlightSunExperienceProps {
     departureLat: number;
@@ -11,7 +12,7 @@ interface FlightSunExperienceProps {
     arrivalLng: number;
     departureTime: Date;
     flightDuration: number;
-    path: [number, number][];
+    path: RoutePath;
     flightBearing: number;
 }
 
@@ -51,8 +52,9 @@ export default function FlightSunExperience({
                 path={path}
                 scenicSide={sunData.scenicSide}
                 flightBearing={flightBearing}
-                sunriseTime={sunData.sunriseTime}
-                sunsetTime={sunData.sunsetTime}
+                daylightStatus={sunData.daylightStatus}
+                sunriseTime={sunData.sunriseTime ?? undefined}
+                sunsetTime={sunData.sunsetTime ?? undefined}
                 recommendedSeats={recommendedSeats}
                 departureLat={departureLat}
                 departureLng={departureLng}
@@ -0,0 +1,19 @@
+import { formatUtcTime, formatZonedTime } from '@/lib/time';
+
+interface LocalTimeProps {
+  time: Date | string;
+  timeZone?: string; // IANA zone to show, e.g. the relevant airport's; the viewer's own if omitted
+  format?: 'time' | 'dateTime' | 'date';
+}
+
+/**
+ * A time as wall-clock time in an airport's timezone, with UTC on hover
+ */
+export default function LocalTime({ time, timeZone, format = 'time' }: LocalTimeProps) {
+  const instant = new Date(time);
+  return (
+    <time dateTime={instant.toISOString()} title={formatUtcTime(instant)}>
+      {formatZonedTime(instant, timeZone, format)}
+    </time>
+  );
+}
@@ -4,23 +4,40 @@ import React from 'react';
 import { ComposableMap, Geographies, Geography, Marker } from 'react-simple-maps';
 import { motion } from 'framer-motion';
 import { geoMercator } from 'd3-geo';
+import { simplifyPath, toRoutePath, unwrapLongitudes, RoutePath } from '@/lib/geo';
+import LocalTime from '@/components/LocalTime';
 
 interface Map2DProps {
   departureLat: number;
   departureLng: number;
   arrivalLat: number;
   arrivalLng: number;
-  path?: [number, number][]; // optional array of [lng, lat]
+  path?: RoutePath; // optional route, split at the antimeridian
+  legs?: RoutePath[]; // per-leg routes of a connecting itinerary, drawn separately
+  landmarks?: {
+    name: string;
+    lat: number;
+    lng: number;
+    time: string;
+    timeZone?: string; // zone to show the time in; the viewer's own if omitted
+    distance: number; // km from the ground track
+    side: 'left' | 'right';
+  }[];
 }
 
 const geoUrl = "https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json";
 
+// Path points closer than this to the drawn line are dropped
+const DISPLAY_TOLERANCE_PX = 0.5;
+
 /**
  * Behavior:
  * - If the route distance is SHORT -> center on the midpoint and ZOOM IN so the segment is clear.
  * - If the route distance is LONG  -> zoom out / choose projection center so the full line fits.
  *
- * This file draws the LINE (linear) actively. The PARABOLIC path is present but commented out.
+ * The map is rotated to the middle of the route, and the route is drawn segment
+ * by segment, so paths over the date line or near a pole stay connected.
+ * The PARABOLIC path is present but commented out.
  */
 
 export default function Map2D({
@@ -28,10 +45,20 @@ export default function Map2D({
   departureLng,
   arrivalLat,
   arrivalLng,
-  path = [],
+  path,
+  legs = [],
+  landmarks = [],
 }: Map2DProps) {
-  // Use provided path or fallback to departure->arrival
-  const allPoints = path.length > 0 ? path : [[departureLng, departureLat], [arrivalLng, arrivalLat]];
+  // Draw the given legs, else the single path, else a straight departure -> arrival line
+  const routes: RoutePath[] = legs.length > 0
+    ? legs
+    : path
+      ? [path]
+      : [toRoutePath([[departureLng, departureLat], [arrivalLng, arrivalLat]])];
+
+  // Frame the map with continuous longitudes, so routes over the date line
+  // are measured and centered without wrapping around the world
+  const allPoints = unwrapLongitudes(routes.flatMap((route) => route.unwrapped));
 
   // Helper: haversine distance (km)
   const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
@@ -56,42 +83,8 @@ export default function Map2D({
     maxLng = Math.max(maxLng, lng);
   });
 
-  // If allPoints collapsed to single point, ensure bbox has some size
-  if (minLat === Infinity) {
-    minLat = Math.min(departureLat, arrivalLat);
-    maxLat = Math.max(departureLat, arrivalLat);
-    minLng = Math.min(departureLng, arrivalLng);
-    maxLng = Math.max(departureLng, arrivalLng);
-  }
-
-  // handle date line: compute longitudinal span robustly
-  const rawLngSpan = maxLng - minLng;
-  const lngSpanWrapped = (() => {
-    // compute minimal span across date line
-    const span = Math.abs((maxLng - minLng + 360) % 360);
-    return span === 0 ? 0 : Math.min(span, 360 - span);
-  })();
-
-  const crossesDateLine = (360 - rawLngSpan) % 360 < rawLngSpan;
-
-  // Center lat straightforward
   const bboxCenterLat = (minLat + maxLat) / 2;
-
-  // Center lng needs date-line handling
-  let bboxCenterLng = 0;
-  if (crossesDateLine) {
-    // shift into positive range, average, then wrap back
-    const a = (minLng + 360) % 360;
-    const b = (maxLng + 360) % 360;
-    let c = (a + b) / 2;
-    if (a > b) {
-      // across date line
-      c = ((a + b + 360) / 2) % 360;
-    }
-    bboxCenterLng = c > 180 ? c - 360 : c;
-  } else {
-    bboxCenterLng = (minLng + maxLng) / 2;
-  }
+  const bboxCenterLng = (minLng + maxLng) / 2;
 
   // Start / end
   const start = allPoints[0];
@@ -128,7 +121,7 @@ export default function Map2D({
     projectionCenter = [bboxCenterLng, bboxCenterLat];
     // Use bbox spans to derive scale: larger span -> smaller scale
     const latSpan = Math.max(1, maxLat - minLat);
-    const lngSpan = crossesDateLine ? lngSpanWrapped : Math.max(1, maxLng - minLng);
+    const lngSpan = Math.max(1, maxLng - minLng);
     const maxSpan = Math.max(latSpan, lngSpan);
     // simple mapping: scale decreases as maxSpan increases
     projectionScale = Math.max(200, Math.min(1200, 1800 / (maxSpan / 10)));
@@ -140,10 +133,16 @@ export default function Map2D({
     projectionScale = 180; // shows broad world
   }
 
+  // Rotate the globe to the center longitude instead of panning, so the seam
+  // of the map falls on the far side of the world from the route
+  const projectionRotate: [number, number, number] = [-projectionCenter[0], 0, 0];
+  const projectionOffset: [number, number] = [0, projectionCenter[1]];
+
   // Build d3 projection to match ComposableMap
   const projection = geoMercator()
+    .rotate(projectionRotate)
     .scale(projectionScale)
-    .center(projectionCenter)
+    .center(projectionOffset)
     .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2]);
 
   const projectPoint = (lng: number, lat: number) => {
@@ -163,8 +162,23 @@ export default function Map2D({
   const controlY = midY - curveHeight;
   const parabolaD = `M ${startPx.x} ${startPx.y} Q ${controlX} ${controlY} ${endPx.x} ${endPx.y}`;
 
-  // For linear path
-  const straightLineD = `M ${startPx.x} ${startPx.y} L ${endPx.x} ${endPx.y}`;
+  // One polyline per antimeridian-safe segment, thinned to what shows at this
+  // scale, with a dot at the end of each leg
+  const legLines = routes.map((route) => {
+    const d = route.segments
+      .map((segment) => simplifyPath(
+        segment.map(([lng, lat]) => {
+          const p = projectPoint(lng, lat);
+          return [p.x, p.y] as [number, number];
+        }),
+        DISPLAY_TOLERANCE_PX
+      )
+        .map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x} ${y}`)
+        .join(' '))
+      .join(' ');
+    const last = route.unwrapped[route.unwrapped.length - 1];
+    return { d, end: projectPoint(last[0], last[1]) };
+  });
 
   return (
     <div className="card-elevated p-6 md:p-8">
@@ -178,8 +192,8 @@ export default function Map2D({
           projection="geoMercator"
           projectionConfig={{
             scale: projectionScale,
-            center: projectionCenter,
-            rotate: [0, 0, 0],
+            center: projectionOffset,
+            rotate: projectionRotate,
           }}
           width={MAP_WIDTH}
           height={MAP_HEIGHT}
@@ -260,6 +274,30 @@ export default function Map2D({
             </g>
           </Marker>
 
+          {/* Landmarks visible from the cabin */}
+          {landmarks.map((landmark, index) => (
+            <Marker key={`${landmark.name}-${index}`} coordinates={[landmark.lng, landmark.lat]}>
+              <g>
+                <motion.path
+                  d="M 0 -7 L 6 5 L -6 5 Z"
+                  fill={landmark.side === 'left' ? '#8b5cf6' : '#f59e0b'}
+                  stroke="#ffffff"
+                  strokeWidth={1.5}
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  transition={{ delay: 1.0, duration: 0.45, type: "spring" }}
+                />
+                <text
+                  textAnchor="middle"
+                  y={18}
+                  style={{ fontSize: 10, fontWeight: 600, fill: '#475569' }}
+                >
+                  {landmark.name} ({landmark.side === 'left' ? 'L' : 'R'})
+                </text>
+              </g>
+            </Marker>
+          ))}
+
           <defs>
             <linearGradient id="flightGradient" x1="0%" y1="0%" x2="100%" y2="0%">
               <stop offset="0%" stopColor="#10b981" stopOpacity={1} />
@@ -289,17 +327,25 @@ export default function Map2D({
             pointerEvents: 'none',
           }}
         >
-          {/* Active: Linear straight line */}
-          <path
-            d={straightLineD}
-            stroke="url(#flightGradient)"
-            strokeWidth={3.5}
-            fill="none"
-            strokeLinecap="round"
-            style={{ filter: 'drop-shadow(0 2px 6px rgba(59,130,246,0.28))' }}
-          />
+          {/* Active: route segments (one set per leg for connecting itineraries) */}
+          {legLines.map((leg, index) => (
+            <React.Fragment key={index}>
+              <path
+                d={leg.d}
+                stroke="url(#flightGradient)"
+                strokeWidth={3.5}
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                style={{ filter: 'drop-shadow(0 2px 6px rgba(59,130,246,0.28))' }}
+              />
+              {index < legLines.length - 1 && (
+                <circle cx={leg.end.x} cy={leg.end.y} r={5} fill="#3b82f6" stroke="#fff" strokeWidth={1.2} />
+              )}
+            </React.Fragment>
+          ))}
 
-          {/* Parabolic version (commented out). If you want parabola instead, uncomment this block and comment the straight line above. */}
+          {/* Parabolic version (commented out). If you want parabola instead, uncomment this block and comment the route segments above. */}
           {/*
           <path
             d={parabolaD}
@@ -332,6 +378,21 @@ export default function Map2D({
           <span className="text-sm font-semibold text-foreground/80">Arrival</span>
         </div>
       </div>
+
+      {/* Landmark sightings */}
+      {landmarks.length > 0 && (
+        <div className="mt-4 space-y-1.5">
+          {landmarks.map((landmark, index) => (
+            <div key={`${landmark.name}-${index}`} className="flex items-center justify-between text-xs text-foreground/80">
+              <span className="font-semibold">{landmark.name}</span>
+              <span>
+                {landmark.side === 'left' ? 'Left (A)' : 'Right (F)'} · {landmark.distance} km ·{' '}
+                <LocalTime time={landmark.time} timeZone={landmark.timeZone} />
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
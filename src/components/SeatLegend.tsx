@@ -1,30 +1,63 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import { SeatObjective } from '@/lib/sun';
+import LocalTime from '@/components/LocalTime';
+
+interface SideScoreSummary {
+  score: number; // 0..100
+  visibleMinutes: number;
+  horizonMinutes: number;
+  peakTime: string | null;
+}
 
 interface SeatLegendProps {
   scenicSide: 'left' | 'right' | 'both' | 'none';
   recommendedSeats: string[];
+  objective?: SeatObjective;
+  shadeSide?: 'left' | 'right' | 'both';
+  exposure?: { left: number; right: number }; // weighted minutes of direct sun
+  scenicScore?: { left: SideScoreSummary; right: SideScoreSummary };
+  getTimeZone?: (time: string) => string; // zone to show an in-flight time in; the viewer's own if omitted
 }
 
-export default function SeatLegend({ scenicSide, recommendedSeats }: SeatLegendProps) {
+export default function SeatLegend({
+  scenicSide,
+  recommendedSeats,
+  objective = 'scenic',
+  shadeSide,
+  exposure,
+  scenicScore,
+  getTimeZone,
+}: SeatLegendProps) {
+  const isShadeMode = objective === 'shade';
   const allWindowSeats = ['A', 'F'];
   const standardWindowSeats = allWindowSeats.filter(seat => !recommendedSeats.includes(seat));
   const aisleSeats = ['C', 'D'];
   const middleSeats = ['B', 'E'];
 
   const legendItems = [
-    {
-      type: 'scenic',
-      label: 'Recommended Scenic Seats',
-      description: 'Best window seats for sunrise/sunset views',
-      icon: '⭐',
-      seats: recommendedSeats.filter(seat => allWindowSeats.includes(seat)),
-    },
+    isShadeMode
+      ? {
+        type: 'shaded',
+        label: 'Recommended Shaded Seats',
+        description: 'Least direct sun: best for sleeping, working on a screen or staying cool',
+        icon: '🌥️',
+        seats: recommendedSeats.filter(seat => allWindowSeats.includes(seat)),
+      }
+      : {
+        type: 'scenic',
+        label: 'Recommended Scenic Seats',
+        description: 'Best window seats for sunrise/sunset views',
+        icon: '⭐',
+        seats: recommendedSeats.filter(seat => allWindowSeats.includes(seat)),
+      },
     {
       type: 'standard',
       label: 'Standard Window Seat',
-      description: 'Window view, but sun may not be visible',
+      description: isShadeMode
+        ? 'Window view, but expect more direct sun'
+        : 'Window view, but sun may not be visible',
       icon: '🪟',
       seats: standardWindowSeats,
     },
@@ -44,6 +77,17 @@ export default function SeatLegend({ scenicSide, recommendedSeats }: SeatLegendP
     },
   ];
 
+  const getShadeSideDescription = () => {
+    if (shadeSide === 'both') {
+      return 'Both sides get about the same direct sun on this flight, so either window seat works';
+    }
+    const seat = shadeSide === 'left' ? 'Left window seat (A)' : 'Right window seat (F)';
+    if (!exposure) return `${seat} gets the least direct sun during this flight`;
+    const shaded = shadeSide === 'left' ? exposure.left : exposure.right;
+    const sunny = shadeSide === 'left' ? exposure.right : exposure.left;
+    return `${seat} gets the least direct sun: about ${shaded} min versus ${sunny} min on the other side`;
+  };
+
   const getScenicSideDescription = () => {
     const hasLeftScenic = recommendedSeats.includes('A');
     const hasRightScenic = recommendedSeats.includes('F');
@@ -81,6 +125,8 @@ export default function SeatLegend({ scenicSide, recommendedSeats }: SeatLegendP
               <div className="flex items-start gap-3">
                 <div className={`w-8 h-8 rounded-lg border-2 flex items-center justify-center text-base flex-shrink-0 shadow-sm ${item.type === 'scenic'
                   ? 'glow-seat bg-yellow-400 dark:bg-yellow-500 border-yellow-500 dark:border-yellow-400'
+                  : item.type === 'shaded'
+                    ? 'bg-indigo-300 dark:bg-indigo-500 border-indigo-500 dark:border-indigo-400'
                   : item.type === 'standard'
                     ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-500 dark:border-blue-400'
                     : item.type === 'middle'
@@ -98,6 +144,8 @@ export default function SeatLegend({ scenicSide, recommendedSeats }: SeatLegendP
                         key={seat}
                         className={`px-2 py-1 text-xs font-bold rounded ${item.type === 'scenic'
                           ? 'bg-yellow-400 dark:bg-yellow-500 text-yellow-900 dark:text-yellow-950 border-2 border-yellow-500 dark:border-yellow-400 shadow-md'
+                          : item.type === 'shaded'
+                            ? 'bg-indigo-300 dark:bg-indigo-500 text-indigo-900 dark:text-indigo-950 border-2 border-indigo-500 dark:border-indigo-400 shadow-md'
                           : item.type === 'standard'
                             ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 border-2 border-blue-500 dark:border-blue-400'
                             : item.type === 'aisle'
@@ -128,8 +176,26 @@ export default function SeatLegend({ scenicSide, recommendedSeats }: SeatLegendP
             <div className="font-bold text-sm text-primary">Recommendation</div>
           </div>
           <div className="text-xs text-foreground/80 leading-relaxed mb-3">
-            {getScenicSideDescription()}
+            {isShadeMode ? getShadeSideDescription() : getScenicSideDescription()}
           </div>
+          {scenicScore && !isShadeMode && (
+            <div className="text-[10px] text-foreground/60 font-medium mb-3 space-y-0.5">
+              {(['left', 'right'] as const).map((side) => (
+                <div key={side}>
+                  <strong className="text-foreground/80">{side === 'left' ? 'Left' : 'Right'} score {scenicScore[side].score}/100:</strong>{' '}
+                  {scenicScore[side].visibleMinutes} min of sun, {scenicScore[side].horizonMinutes} min near the horizon
+                  {scenicScore[side].peakTime && (
+                    <> | best at <LocalTime time={scenicScore[side].peakTime!} timeZone={getTimeZone?.(scenicScore[side].peakTime!)} /></>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {exposure && (
+            <div className="text-[10px] text-foreground/60 font-medium mb-3">
+              <strong className="text-foreground/80">Direct sun:</strong> Left {exposure.left} min | Right {exposure.right} min
+            </div>
+          )}
           <div className="pt-2 border-t border-primary/20">
             <div className="text-[10px] text-foreground/60 font-medium">
               <strong className="text-foreground/80">Seat Layout:</strong> A (window) | B (middle) | C (aisle) || D (aisle) | E (middle) | F (window)
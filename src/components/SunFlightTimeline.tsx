@@ -5,39 +5,101 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faPlane } from '@fortawesome/free-solid-svg-icons';
-import { getSunPosition as getSunPositionFromLib, calculateSunRelativeAngle } from '@/lib/sun';
-import { calculateBearing } from '@/lib/geo';
+import {
+  getSunPosition as getSunPositionFromLib,
+  calculateSunRelativeAngle,
+  calculateHorizonDip,
+  getWindowViewSide,
+  getFlightTrajectory,
+  classifyLightPhase,
+  DEFAULT_CRUISE_ALTITUDE,
+  DEFAULT_WINDOW_FOV,
+  DaylightStatus,
+  WindowFieldOfView,
+  LightPhase,
+} from '@/lib/sun';
+import { getMoonPosition, isMoonUp } from '@/lib/moon';
+import { EarthModel, RoutePath } from '@/lib/geo';
+import { FlightTrack } from '@/lib/track';
+import { WindField } from '@/lib/wind';
+import { FlightRunways } from '@/lib/runway';
+import { formatZonedTime, getRelevantTimeZone } from '@/lib/time';
+import LocalTime from '@/components/LocalTime';
 
 interface SunFlightTimelineProps {
   departureTime: Date;
   arrivalTime: Date;
   flightDuration: number;            // hours
-  path: [number, number][];          // [lng, lat] pairs along flight path
+  path: RoutePath;                   // flight path, split at the antimeridian
   scenicSide: 'left' | 'right' | 'both' | 'none';
   flightBearing?: number;            // not used in simple UI but available for future refinement
   sunriseTime?: Date;
   sunsetTime?: Date;
+  daylightStatus?: DaylightStatus;
   recommendedSeats?: string[];       // e.g. ['A'] or ['A','F']
   departureLat?: number;             // for real sun calculations
   departureLng?: number;
   arrivalLat?: number;
   arrivalLng?: number;
+  departureTimeZone?: string;        // IANA zones for local times; the viewer's own if omitted
+  arrivalTimeZone?: string;
+  cruiseAltitude?: number;           // meters, drives the cabin horizon dip
+  windowFov?: WindowFieldOfView;     // viewing cone used for the "visible" flag
+  earthModel?: EarthModel;           // route geodesic, to match the API analysis
+  track?: FlightTrack;               // flown track to replay instead of the planned route
+  wind?: WindField;                  // wind the aircraft crabs into, to match the API analysis
+  runways?: FlightRunways;           // takeoff and landing runways, to match the API analysis
+  moonSide?: 'left' | 'right' | 'both' | 'none';
+  moonPhaseName?: string;
+  moonIllumination?: number;         // 0..1
+  lightSegments?: {
+    phase: LightPhase;
+    start: Date;
+    end: Date;
+    side: 'left' | 'right' | 'both' | 'none';
+  }[];
 }
 
+// Band colour, sky background and label for each light phase
+const LIGHT_PHASE_STYLES: Record<LightPhase, { label: string; band: string; sky: string }> = {
+  daylight: { label: 'Daylight', band: '#7dd3fc', sky: 'linear-gradient(to bottom, #3b82f6, #60a5fa, #93c5fd)' },
+  goldenHour: { label: 'Golden Hour', band: '#fbbf24', sky: 'linear-gradient(to bottom, #3b0764, #f97316, #fde047)' },
+  civilTwilight: { label: 'Civil Twilight', band: '#f97316', sky: 'linear-gradient(to bottom, #1e1b4b, #7c3aed, #f97316)' },
+  blueHour: { label: 'Blue Hour', band: '#2563eb', sky: 'linear-gradient(to bottom, #1e3a8a, #2563eb, #60a5fa)' },
+  nauticalTwilight: { label: 'Nautical Twilight', band: '#1e3a8a', sky: 'linear-gradient(to bottom, #172554, #1e3a8a)' },
+  astronomicalTwilight: { label: 'Astronomical Twilight', band: '#312e81', sky: 'linear-gradient(to bottom, #0f172a, #1e1b4b)' },
+  night: { label: 'Night', band: '#0f172a', sky: 'linear-gradient(to bottom, #0f172a, #1e293b)' },
+};
+
+// Moon marker placement when it is not above the cabin horizon
+const HIDDEN_MOON = { y: 50, visible: false };
+
 export default function SunFlightTimeline({
   departureTime,
   arrivalTime,
   flightDuration,
   path,
   scenicSide,
-  flightBearing,
   sunriseTime,
   sunsetTime,
+  daylightStatus = 'normal',
   recommendedSeats,
   departureLat,
   departureLng,
   arrivalLat,
   arrivalLng,
+  departureTimeZone,
+  arrivalTimeZone,
+  cruiseAltitude = DEFAULT_CRUISE_ALTITUDE,
+  windowFov = DEFAULT_WINDOW_FOV,
+  earthModel = 'wgs84',
+  track,
+  wind,
+  runways,
+  moonSide,
+  moonPhaseName,
+  moonIllumination,
+  lightSegments = [],
 }: SunFlightTimelineProps) {
   const [sliderProgress, setSliderProgress] = useState(0);
 
@@ -45,9 +107,13 @@ export default function SunFlightTimeline({
     setSliderProgress(parseFloat(e.target.value));
   };
 
+  // In-flight times read in the departure airport's zone, then the arrival's after halfway
+  const timeZoneAt = (date: Date) =>
+    getRelevantTimeZone(date, departureTime, arrivalTime, departureTimeZone, arrivalTimeZone);
+
   const formatTime = (date: Date | undefined) => {
     if (!date) return '--:--';
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return formatZonedTime(date, timeZoneAt(date));
   };
 
   const currentTime = new Date(
@@ -58,31 +124,29 @@ export default function SunFlightTimeline({
   const getSunPosition = () => {
     // If we have coordinates, calculate real sun position
     if (departureLat !== undefined && departureLng !== undefined &&
-      arrivalLat !== undefined && arrivalLng !== undefined && path.length > 0) {
-
-      // Interpolate current position along flight path
-      const pathIndex = Math.floor(sliderProgress * (path.length - 1));
-      const [currentLng, currentLat] = path[Math.min(pathIndex, path.length - 1)];
-
-      // Calculate current time
-      const currentTime = new Date(
-        departureTime.getTime() + sliderProgress * flightDuration * 60 * 60 * 1000
+      arrivalLat !== undefined && arrivalLng !== undefined && path.unwrapped.length > 0) {
+
+      // The slider is time; the flight profile (or the recorded track) says
+      // where the aircraft is then and which way it is heading
+      const trajectory = getFlightTrajectory(
+        departureLat, departureLng,
+        arrivalLat, arrivalLng,
+        departureTime,
+        flightDuration,
+        { cruiseAltitude, earthModel, track, wind, runways }
       );
+      const {
+        lat: currentLat,
+        lng: currentLng,
+        heading,
+        altitude: aircraftAltitude,
+      } = trajectory(currentTime);
 
-      // Get actual sun position at this location and time
-      const sunPos = getSunPositionFromLib(currentTime, currentLat, currentLng);
-
-      // Calculate flight bearing at this point
-      let bearing: number;
-      if (pathIndex < path.length - 1) {
-        const [nextLng, nextLat] = path[pathIndex + 1];
-        bearing = calculateBearing(currentLat, currentLng, nextLat, nextLng);
-      } else {
-        bearing = flightBearing || calculateBearing(departureLat, departureLng, arrivalLat, arrivalLng);
-      }
+      // Get actual sun position as seen from the cabin at this point of the climb/cruise/descent
+      const sunPos = getSunPositionFromLib(currentTime, currentLat, currentLng, aircraftAltitude);
 
-      // Calculate relative angle: where is sun relative to flight direction?
-      const relativeAngle = calculateSunRelativeAngle(bearing, sunPos.azimuth);
+      // Calculate relative angle: where is sun relative to the nose?
+      const relativeAngle = calculateSunRelativeAngle(heading, sunPos.azimuth);
 
       // X-axis: flight progress (0 to 100%)
       const x = sliderProgress * 100;
@@ -95,13 +159,21 @@ export default function SunFlightTimeline({
       // +180° (behind right) → 100%
       const y = ((relativeAngle + 180) / 360) * 100;
 
-      // Return position and visibility (sun above horizon or in twilight)
-      // Show sun when altitude > -6° (civil twilight threshold)
+      // Moon uses the same left/right mapping
+      const moonPos = getMoonPosition(currentTime, currentLat, currentLng, aircraftAltitude);
+      const moonRelativeAngle = calculateSunRelativeAngle(heading, moonPos.azimuth);
+
+      // Sun (or its twilight glow, down to -6°) counts as visible only inside
+      // a window's viewing cone
+      const aboveHorizon = sunPos.altitude > -6;
+      const elevation = Math.max(sunPos.altitude, 0) - calculateHorizonDip(aircraftAltitude);
       return {
         x,
         y,
-        visible: sunPos.altitude > -6,
-        altitude: sunPos.altitude
+        visible: aboveHorizon && getWindowViewSide(relativeAngle, elevation, windowFov) !== null,
+        aboveHorizon,
+        altitude: sunPos.altitude,
+        moon: { y: ((moonRelativeAngle + 180) / 360) * 100, visible: isMoonUp(moonPos) },
       };
     }
 
@@ -109,24 +181,34 @@ export default function SunFlightTimeline({
     if (scenicSide === 'both') {
       const x = sliderProgress * 100;
       const y = sliderProgress * 100;
-      return { x, y, visible: true, altitude: 10 };
+      return { x, y, visible: true, aboveHorizon: true, altitude: 10, moon: HIDDEN_MOON };
     } else if (scenicSide === 'left') {
       const x = sliderProgress * 50;
       const y = sliderProgress * 75;
-      return { x, y, visible: true, altitude: 10 };
+      return { x, y, visible: true, aboveHorizon: true, altitude: 10, moon: HIDDEN_MOON };
     } else if (scenicSide === 'none') {
       // No sun visible
       const x = sliderProgress * 100;
       const y = 50; // Center
-      return { x, y, visible: false, altitude: -10 };
+      return { x, y, visible: false, aboveHorizon: false, altitude: -10, moon: HIDDEN_MOON };
     } else {
       const x = 100 - sliderProgress * 50;
       const y = 100 - sliderProgress * 100;
-      return { x, y, visible: true, altitude: 10 };
+      return { x, y, visible: true, aboveHorizon: true, altitude: 10, moon: HIDDEN_MOON };
     }
   };
 
   const sunPosition = getSunPosition();
+  const currentPhase = classifyLightPhase(sunPosition.altitude);
+
+  // Position of a time on the progress bar (0..100%)
+  const flightMs = arrivalTime.getTime() - departureTime.getTime();
+  const toPercent = (date: Date) =>
+    flightMs > 0
+      ? Math.max(0, Math.min(100, ((date.getTime() - departureTime.getTime()) / flightMs) * 100))
+      : 0;
+  const sideLabel = (side: 'left' | 'right' | 'both' | 'none') =>
+    side === 'left' ? 'left (A)' : side === 'right' ? 'right (F)' : side === 'both' ? 'both sides' : 'no sun';
 
   const labelForScenicSide = () => {
     if (scenicSide === 'both') return 'Both sides (A & F)';
@@ -174,7 +256,7 @@ export default function SunFlightTimeline({
               Current Local Time
             </label>
             <span className="text-base font-bold text-primary">
-              {formatTime(currentTime)}
+              <LocalTime time={currentTime} timeZone={timeZoneAt(currentTime)} />
             </span>
           </div>
         </div>
@@ -194,9 +276,43 @@ export default function SunFlightTimeline({
               #cbd5e1 100%)`,
           }}
         />
+        {/* Light phase bands */}
+        {lightSegments.length > 0 && (
+          <>
+            <div className="relative h-3 mt-2 rounded overflow-hidden border border-border/50">
+              {lightSegments.map((segment) => {
+                const left = toPercent(segment.start);
+                const width = toPercent(segment.end) - left;
+                const style = LIGHT_PHASE_STYLES[segment.phase];
+                return (
+                  <div
+                    key={`${segment.phase}-${segment.start.getTime()}`}
+                    className="absolute top-0 h-full"
+                    style={{ left: `${left}%`, width: `${width}%`, background: style.band }}
+                    title={`${style.label} ${formatTime(segment.start)}–${formatTime(segment.end)} · ${sideLabel(segment.side)}`}
+                  />
+                );
+              })}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5 text-[9px] text-foreground/70">
+              {lightSegments
+                .filter((segment) => segment.phase === 'goldenHour' || segment.phase === 'blueHour')
+                .map((segment) => (
+                  <span key={`label-${segment.phase}-${segment.start.getTime()}`} className="inline-flex items-center gap-1">
+                    <span
+                      className="w-2 h-2 rounded-sm"
+                      style={{ background: LIGHT_PHASE_STYLES[segment.phase].band }}
+                      aria-hidden
+                    />
+                    {LIGHT_PHASE_STYLES[segment.phase].label} {formatTime(segment.start)}–{formatTime(segment.end)}, {sideLabel(segment.side)}
+                  </span>
+                ))}
+            </div>
+          </>
+        )}
         <div className="flex justify-between text-[10px] text-foreground/60 mt-1.5 font-medium">
-          <span>Departure: {formatTime(departureTime)}</span>
-          <span>Arrival: {formatTime(arrivalTime)}</span>
+          <span>Departure: <LocalTime time={departureTime} timeZone={departureTimeZone} /></span>
+          <span>Arrival: <LocalTime time={arrivalTime} timeZone={arrivalTimeZone} /></span>
         </div>
       </div>
 
@@ -219,25 +335,16 @@ export default function SunFlightTimeline({
         </div>
 
         <div className="relative h-40 rounded-lg overflow-hidden border-2 border-border/50 isolate">
-          {/* Background Layers for Smooth Transitions */}
-          <motion.div
-            className="absolute inset-0 z-0"
-            style={{ background: 'linear-gradient(to bottom, #0f172a, #1e293b)' }} // Night
-            animate={{ opacity: !sunPosition.visible ? 1 : 0 }}
-            transition={{ duration: 1 }}
-          />
-          <motion.div
-            className="absolute inset-0 z-0"
-            style={{ background: 'linear-gradient(to bottom, #3b0764, #f97316, #fde047)' }} // Sunset
-            animate={{ opacity: sunPosition.visible && sunPosition.altitude <= 6 ? 1 : 0 }}
-            transition={{ duration: 1 }}
-          />
-          <motion.div
-            className="absolute inset-0 z-0"
-            style={{ background: 'linear-gradient(to bottom, #3b82f6, #60a5fa, #93c5fd)' }} // Day
-            animate={{ opacity: sunPosition.altitude > 6 ? 1 : 0 }}
-            transition={{ duration: 1 }}
-          />
+          {/* Background Layers for Smooth Transitions - one per light phase */}
+          {(Object.keys(LIGHT_PHASE_STYLES) as LightPhase[]).map((phase) => (
+            <motion.div
+              key={phase}
+              className="absolute inset-0 z-0"
+              style={{ background: LIGHT_PHASE_STYLES[phase].sky }}
+              animate={{ opacity: currentPhase === phase ? 1 : 0 }}
+              transition={{ duration: 1 }}
+            />
+          ))}
 
           {/* Left/Right labels */}
           <div className="absolute top-2 left-2 text-[10px] font-bold text-foreground/70 bg-white/90 dark:bg-black/70 px-2 py-1 rounded shadow-sm z-10">
@@ -327,6 +434,37 @@ export default function SunFlightTimeline({
             </motion.div>
           )}
 
+          {/* Moon marker - only show when above the cabin horizon */}
+          {sunPosition.moon.visible && (
+            <motion.div
+              className="absolute z-20"
+              initial={false}
+              animate={{
+                left: `${sunPosition.x}%`,
+                top: `${sunPosition.moon.y}%`,
+                opacity: sunPosition.visible ? 0.5 : 1,
+              }}
+              style={{
+                x: '-50%',
+                y: '-50%',
+              }}
+              transition={{
+                left: { type: "spring", stiffness: 200, damping: 30 },
+                top: { type: "spring", stiffness: 200, damping: 30 },
+                opacity: { duration: 0.5 }
+              }}
+            >
+              <svg
+                className="w-8 h-8 text-slate-200 drop-shadow-lg"
+                viewBox="0 0 24 24"
+                fill="currentColor"
+                aria-label="Moon"
+              >
+                <path d="M21 12.79A9 9 0 1111.21 3 7 7 0 0021 12.79z" />
+              </svg>
+            </motion.div>
+          )}
+
           {/* Progress fill */}
           <div
             className="absolute bottom-0 left-0 h-1 bg-primary/50 transition-all duration-300 z-10"
@@ -359,11 +497,28 @@ export default function SunFlightTimeline({
           </div>
         </div>
 
+        {/* Moon summary */}
+        {moonSide && moonSide !== 'none' && (
+          <div className="mt-3 text-center text-[10px] text-foreground/70">
+            {moonPhaseName}
+            {moonIllumination !== undefined && ` (${Math.round(moonIllumination * 100)}% lit)`}
+            {' visible from the '}
+            {moonSide === 'both' ? 'both sides' : `${moonSide} side (${moonSide === 'left' ? 'A' : 'F'})`}
+          </div>
+        )}
+
         {/* Sunrise / Sunset */}
-        {(sunriseTime || sunsetTime) && (
+        {daylightStatus !== 'normal' && (
+          <div className="mt-3 text-center text-[10px] font-semibold text-foreground/70">
+            {daylightStatus === 'midnightSun'
+              ? 'Midnight sun: the sun never sets on this route'
+              : 'Polar night: the sun never rises on this route'}
+          </div>
+        )}
+        {daylightStatus === 'normal' && (sunriseTime || sunsetTime) && (
           <div className="mt-3 flex justify-between text-[10px] text-foreground/70">
-            <span>Sunrise: {formatTime(sunriseTime)}</span>
-            <span>Sunset: {formatTime(sunsetTime)}</span>
+            <span>Sunrise: {sunriseTime ? <LocalTime time={sunriseTime} timeZone={timeZoneAt(sunriseTime)} /> : '--:--'}</span>
+            <span>Sunset: {sunsetTime ? <LocalTime time={sunsetTime} timeZone={timeZoneAt(sunsetTime)} /> : '--:--'}</span>
           </div>
         )}
       </div>
@@ -391,17 +546,14 @@ export default function SunFlightTimeline({
             />
           </svg>
           <div className="text-sm font-bold text-primary">
-            Current View: {
-              !sunPosition.visible ? 'Night View' :
-                sunPosition.altitude <= 6 ? 'Sunset / Sunrise' :
-                  'Daylight'
-            }
+            Current View: {LIGHT_PHASE_STYLES[currentPhase].label}
           </div>
         </div>
         <div className="text-xs text-foreground/80 leading-relaxed">
           <p className="font-semibold mb-1">
             Sun Position: {
-              !sunPosition.visible ? 'Below Horizon' :
+              !sunPosition.aboveHorizon ? 'Below Horizon' :
+                !sunPosition.visible ? (sunPosition.y > 25 && sunPosition.y < 75 ? 'Ahead, out of window view' : 'Behind, out of window view') :
                 (
                   <>
                     {sunPosition.y < 25 ? 'Behind Left' :
@@ -421,11 +573,15 @@ export default function SunFlightTimeline({
           </p>
           <p className="opacity-80">
             {
-              !sunPosition.visible
-                ? 'The sun is below the horizon, so seat choice matters less for sun views.'
-                : sunPosition.y < 50
-                  ? 'The sun is currently on the left side of the aircraft.'
-                  : 'The sun is currently on the right side of the aircraft.'
+              !sunPosition.aboveHorizon && sunPosition.moon.visible
+                ? `The sun is below the horizon; the moon is on the ${sunPosition.moon.y < 50 ? 'left' : 'right'} side of the aircraft.`
+                : !sunPosition.aboveHorizon
+                  ? 'The sun is below the horizon, so seat choice matters less for sun views.'
+                  : !sunPosition.visible
+                    ? 'The sun is up but outside the view of either window right now.'
+                    : sunPosition.y < 50
+                      ? 'The sun is currently on the left side of the aircraft.'
+                      : 'The sun is currently on the right side of the aircraft.'
             }
           </p>
         </div>
@@ -437,7 +593,7 @@ export default function SunFlightTimeline({
           <div>
             <div className="text-[10px] text-foreground/60 mb-0.5">Departure</div>
             <div className="font-semibold text-foreground">
-              {formatTime(departureTime)}
+              <LocalTime time={departureTime} timeZone={departureTimeZone} />
             </div>
           </div>
           <div className="text-center">
@@ -449,7 +605,7 @@ export default function SunFlightTimeline({
           <div className="text-right">
             <div className="text-[10px] text-foreground/60 mb-0.5">Arrival</div>
             <div className="font-semibold text-foreground">
-              {formatTime(arrivalTime)}
+              <LocalTime time={arrivalTime} timeZone={arrivalTimeZone} />
             </div>
           </div>
         </div>
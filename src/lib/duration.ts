@@ -0,0 +1,133 @@
+import { createGeodesicLine, geodesicInverse, EarthModel } from './geo';
+import { CLIMB_MINUTES, DESCENT_MINUTES } from './profile';
+import { getAlongTrackWind, getWindSeason, WindSeason } from './wind';
+
+export interface FlightDurationEstimate {
+  duration: number; // block time in hours, gate to gate
+  airborneDuration: number; // hours from takeoff to landing
+  taxiOutMinutes: number;
+  taxiInMinutes: number;
+  climbMinutes: number;
+  cruiseMinutes: number;
+  descentMinutes: number;
+  cruiseSpeed: number; // true airspeed in km/h
+  averageWind: number; // km/h along track over the cruise, positive = tailwind
+  season: WindSeason; // season of the climatological wind table used
+}
+
+const TAXI_OUT_MINUTES = 15;
+const TAXI_IN_MINUTES = 8;
+// Ground distance covered while climbing and descending on a full-length flight
+const CLIMB_DISTANCE_KM = 180;
+const DESCENT_DISTANCE_KM = 225;
+// Cruise speed grows with stage length, from regional jets to long-haul widebodies
+const LONG_HAUL_CRUISE_SPEED = 870; // km/h
+const SHORT_HAUL_SPEED_DEFICIT = 250; // km/h slower on the shortest hops
+const CRUISE_SPEED_SCALE_KM = 1500;
+// Never let a headwind push the ground speed below this
+const MIN_GROUND_SPEED = 300; // km/h
+const WIND_SAMPLES = 24;
+
+/**
+ * Typical cruise true airspeed for a stage length
+ * @param distance Route distance in kilometers
+ * @returns Speed in km/h
+ */
+export function getCruiseSpeed(distance: number): number {
+  return LONG_HAUL_CRUISE_SPEED - SHORT_HAUL_SPEED_DEFICIT * Math.exp(-distance / CRUISE_SPEED_SCALE_KM);
+}
+
+/**
+ * Estimate block time for a shortest-path flight: taxi, climb and descent
+ * overheads plus a cruise at a distance-dependent speed, pushed or held back
+ * by the seasonal climatological jet stream along the route
+ */
+export function estimateFlightDuration(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  earthModel: EarthModel = 'wgs84'
+): FlightDurationEstimate {
+  const distance = geodesicInverse(departureLat, departureLng, arrivalLat, arrivalLng, earthModel).distance;
+  const line = createGeodesicLine(departureLat, departureLng, arrivalLat, arrivalLng, earthModel);
+  const season = getWindSeason(departureTime);
+  const cruiseSpeed = getCruiseSpeed(distance);
+
+  // Short hops never finish the climb before starting down
+  const rampScale = Math.min(1, distance / (CLIMB_DISTANCE_KM + DESCENT_DISTANCE_KM));
+  const climbMinutes = CLIMB_MINUTES * rampScale;
+  const descentMinutes = DESCENT_MINUTES * rampScale;
+  const climbDistance = CLIMB_DISTANCE_KM * rampScale;
+  const cruiseDistance = Math.max(0, distance - climbDistance - DESCENT_DISTANCE_KM * rampScale);
+
+  // Integrate ground speed over the cruise portion of the route
+  let cruiseMinutes = 0;
+  let windSum = 0;
+  if (cruiseDistance > 0) {
+    const chunk = cruiseDistance / WIND_SAMPLES;
+    for (let i = 0; i < WIND_SAMPLES; i++) {
+      const fraction = (climbDistance + (i + 0.5) * chunk) / distance;
+      const point = line(fraction);
+      const wind = getAlongTrackWind(point.lat, point.bearing, season);
+      windSum += wind;
+      cruiseMinutes += (chunk / Math.max(MIN_GROUND_SPEED, cruiseSpeed + wind)) * 60;
+    }
+  }
+
+  const airborneMinutes = climbMinutes + cruiseMinutes + descentMinutes;
+
+  return {
+    duration: (TAXI_OUT_MINUTES + airborneMinutes + TAXI_IN_MINUTES) / 60,
+    airborneDuration: airborneMinutes / 60,
+    taxiOutMinutes: TAXI_OUT_MINUTES,
+    taxiInMinutes: TAXI_IN_MINUTES,
+    climbMinutes,
+    cruiseMinutes,
+    descentMinutes,
+    cruiseSpeed,
+    averageWind: cruiseDistance > 0 ? windSum / WIND_SAMPLES : 0,
+    season,
+  };
+}
+
+/**
+ * Adjust a block-time estimate for a flown route that is longer (or shorter)
+ * than the shortest path, flying the difference at the cruise ground speed
+ * @param extraDistance Kilometers added to the route
+ */
+export function extendFlightDuration(
+  estimate: FlightDurationEstimate,
+  extraDistance: number
+): FlightDurationEstimate {
+  const groundSpeed = Math.max(MIN_GROUND_SPEED, estimate.cruiseSpeed + estimate.averageWind);
+  const cruiseMinutes = Math.max(0, estimate.cruiseMinutes + (extraDistance / groundSpeed) * 60);
+  const airborneMinutes = estimate.climbMinutes + cruiseMinutes + estimate.descentMinutes;
+
+  return {
+    ...estimate,
+    duration: (estimate.taxiOutMinutes + airborneMinutes + estimate.taxiInMinutes) / 60,
+    airborneDuration: airborneMinutes / 60,
+    cruiseMinutes,
+  };
+}
+
+/**
+ * Replace the airborne time of an estimate with a known one (e.g. from a
+ * timestamped track), keeping the taxi, climb and descent allowances
+ * @param airborneDuration Hours from takeoff to landing
+ */
+export function setAirborneDuration(
+  estimate: FlightDurationEstimate,
+  airborneDuration: number
+): FlightDurationEstimate {
+  const airborneMinutes = airborneDuration * 60;
+
+  return {
+    ...estimate,
+    duration: (estimate.taxiOutMinutes + airborneMinutes + estimate.taxiInMinutes) / 60,
+    airborneDuration,
+    cruiseMinutes: Math.max(0, airborneMinutes - estimate.climbMinutes - estimate.descentMinutes),
+  };
+}
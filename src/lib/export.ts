@@ -0,0 +1,276 @@
+import { FlightLegData } from './flight';
+import {
+  calculateHorizonDip,
+  calculateSunRelativeAngle,
+  classifyLightPhase,
+  getFlightTrajectory,
+  getSunPosition,
+  getWindowViewSide,
+  LightPhase,
+} from './sun';
+import { FlightTrack } from './track';
+
+// Export file formats
+export type ExportFormat = 'geojson' | 'kml';
+
+// Aircraft and sun state at one instant of a leg
+export interface FlightSample {
+  legIndex: number;
+  time: Date;
+  lat: number;
+  lng: number;
+  altitude: number; // aircraft height in meters
+  bearing: number; // direction of travel in degrees
+  heading: number; // direction the nose points in degrees, after the wind correction
+  sunAzimuth: number; // degrees from north, clockwise
+  sunAltitude: number; // degrees above the horizon visible from the cabin
+  relativeAngle: number; // sun relative to the nose, positive = right
+  sunSide: 'left' | 'right';
+  inWindowView: boolean; // inside the viewing cone of a passenger window
+  lightPhase: LightPhase;
+}
+
+export interface FlightExportOptions {
+  sampleMinutes?: number; // spacing of the annotated sample points (default: 10)
+  tracks?: (FlightTrack | undefined)[]; // uploaded tracks by leg index
+}
+
+type ExportProperties = Record<string, string | number | boolean | null>;
+
+export interface ExportFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'Point'; coordinates: [number, number] }
+    | { type: 'LineString'; coordinates: [number, number][] }
+    | { type: 'MultiLineString'; coordinates: [number, number][][] };
+  properties: ExportProperties;
+}
+
+export interface ExportFeatureCollection {
+  type: 'FeatureCollection';
+  features: ExportFeature[];
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Sample the aircraft position and sun geometry along a leg at a fixed interval
+ * @param track Uploaded track the leg was analyzed over, if any
+ * @returns Samples from takeoff to landing, both included
+ */
+export function sampleFlightLeg(
+  leg: FlightLegData,
+  legIndex: number,
+  sampleMinutes: number = 10,
+  track?: FlightTrack
+): FlightSample[] {
+  const takeoffTime = new Date(leg.takeoffTime);
+  const flightDuration = leg.durationModel.airborneDuration;
+  const trajectory = getFlightTrajectory(
+    leg.departure.lat, leg.departure.lng,
+    leg.arrival.lat, leg.arrival.lng,
+    takeoffTime,
+    flightDuration,
+    { cruiseAltitude: leg.cruiseAltitude, earthModel: leg.earthModel, track, wind: leg.wind?.field, runways: leg.runways }
+  );
+
+  const totalMinutes = flightDuration * 60;
+  const steps = Math.max(1, Math.ceil(totalMinutes / sampleMinutes));
+  const samples: FlightSample[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const time = new Date(takeoffTime.getTime() + (i / steps) * totalMinutes * 60 * 1000);
+    const position = trajectory(time);
+    const sun = getSunPosition(time, position.lat, position.lng, position.altitude);
+    const relativeAngle = calculateSunRelativeAngle(position.heading, sun.azimuth);
+    const elevation = Math.max(sun.altitude, 0) - calculateHorizonDip(position.altitude);
+
+    samples.push({
+      legIndex,
+      time,
+      lat: position.lat,
+      lng: position.lng,
+      altitude: position.altitude,
+      bearing: position.bearing,
+      heading: position.heading,
+      sunAzimuth: sun.azimuth,
+      sunAltitude: sun.altitude,
+      relativeAngle,
+      sunSide: relativeAngle > 0 ? 'right' : 'left',
+      inWindowView: sun.altitude > 0 && getWindowViewSide(relativeAngle, elevation) !== null,
+      lightPhase: classifyLightPhase(sun.altitude),
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Airports of an itinerary in order, tagged with their role
+ */
+function listAirports(legs: FlightLegData[]) {
+  return [
+    ...legs.map((leg, index) => ({
+      airport: leg.departure,
+      role: index === 0 ? 'departure' : 'connection',
+      time: leg.departureTime,
+    })),
+    { airport: legs[legs.length - 1].arrival, role: 'arrival', time: legs[legs.length - 1].arrivalTime },
+  ];
+}
+
+/**
+ * Flight path, airports, sun events and annotated sample points as a GeoJSON
+ * FeatureCollection. Every feature has a `kind` property: `route`, `airport`,
+ * `sunEvent` or `sample`.
+ */
+export function buildFlightGeoJson(
+  legs: FlightLegData[],
+  options: FlightExportOptions = {}
+): ExportFeatureCollection {
+  const { sampleMinutes = 10, tracks = [] } = options;
+  const features: ExportFeature[] = [];
+
+  legs.forEach((leg, legIndex) => {
+    features.push({
+      type: 'Feature',
+      // Routes crossing the antimeridian are split there, as RFC 7946 asks
+      geometry: leg.path.segments.length === 1
+        ? { type: 'LineString', coordinates: leg.path.segments[0] }
+        : { type: 'MultiLineString', coordinates: leg.path.segments },
+      properties: {
+        kind: 'route',
+        leg: legIndex + 1,
+        from: leg.departure.code,
+        to: leg.arrival.code,
+        departureTime: leg.departureTime,
+        arrivalTime: leg.arrivalTime,
+        departureRunway: leg.runways.departure?.ident ?? null,
+        arrivalRunway: leg.runways.arrival?.ident ?? null,
+        distanceKm: leg.distance,
+        scenicSide: leg.sunData.scenicSide,
+        recommendedSeats: leg.sunData.recommendedSeats.join(','),
+        source: leg.track ? `${leg.track.format} track` : 'shortest path',
+      },
+    });
+  });
+
+  for (const { airport, role, time } of listAirports(legs)) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [airport.lng, airport.lat] },
+      properties: { kind: 'airport', role, code: airport.code, name: airport.name, city: airport.city, time },
+    });
+  }
+
+  legs.forEach((leg, legIndex) => {
+    for (const event of leg.sunData.events) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [event.lng, event.lat] },
+        properties: {
+          kind: 'sunEvent',
+          leg: legIndex + 1,
+          type: event.type,
+          time: event.time,
+          sunAzimuth: event.azimuth,
+          side: event.side,
+        },
+      });
+    }
+  });
+
+  legs.forEach((leg, legIndex) => {
+    for (const sample of sampleFlightLeg(leg, legIndex, sampleMinutes, tracks[legIndex])) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [round(sample.lng, 5), round(sample.lat, 5)] },
+        properties: {
+          kind: 'sample',
+          leg: legIndex + 1,
+          time: sample.time.toISOString(),
+          altitudeM: Math.round(sample.altitude),
+          bearing: round(sample.bearing, 1),
+          heading: round(sample.heading, 1),
+          sunAzimuth: round(sample.sunAzimuth, 1),
+          sunAltitude: round(sample.sunAltitude, 1),
+          relativeAngle: round(sample.relativeAngle, 1),
+          sunSide: sample.sunSide,
+          inWindowView: sample.inWindowView,
+          lightPhase: sample.lightPhase,
+        },
+      });
+    }
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+function escapeXml(value: string | number | boolean | null): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * KML Placemark for a GeoJSON export feature, with its properties as ExtendedData
+ */
+function toPlacemark(feature: ExportFeature, name: string, styleUrl: string): string {
+  const { geometry, properties } = feature;
+  const toLineString = (line: [number, number][]) =>
+    `<LineString><tessellate>1</tessellate><coordinates>${line.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LineString>`;
+  const shape = geometry.type === 'Point'
+    ? `<Point><coordinates>${geometry.coordinates[0]},${geometry.coordinates[1]}</coordinates></Point>`
+    : geometry.type === 'LineString'
+      ? toLineString(geometry.coordinates)
+      : `<MultiGeometry>${geometry.coordinates.map(toLineString).join('')}</MultiGeometry>`;
+  // Google Earth's time slider picks up stamped placemarks
+  const timeStamp = typeof properties.time === 'string' ? `<TimeStamp><when>${properties.time}</when></TimeStamp>` : '';
+  const data = Object.entries(properties)
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+    .join('');
+
+  return `<Placemark><name>${escapeXml(name)}</name><styleUrl>#${styleUrl}</styleUrl>${timeStamp}` +
+    `<ExtendedData>${data}</ExtendedData>${shape}</Placemark>`;
+}
+
+/**
+ * The same content as buildFlightGeoJson as a KML document, in folders for
+ * the route, airports, sun events and samples
+ */
+export function buildFlightKml(legs: FlightLegData[], options: FlightExportOptions = {}): string {
+  const { features } = buildFlightGeoJson(legs, options);
+  const ofKind = (kind: string) => features.filter((feature) => feature.properties.kind === kind);
+  const title = listAirports(legs).map(({ airport }) => airport.code).join(' → ');
+
+  const folders = [
+    ['Route', ofKind('route').map((feature) =>
+      toPlacemark(feature, `${feature.properties.from} → ${feature.properties.to}`, 'route'))],
+    ['Airports', ofKind('airport').map((feature) =>
+      toPlacemark(feature, String(feature.properties.code), 'airport'))],
+    ['Sun events', ofKind('sunEvent').map((feature) =>
+      toPlacemark(feature, String(feature.properties.type), 'sunEvent'))],
+    ['Samples', ofKind('sample').map((feature) =>
+      toPlacemark(
+        feature,
+        `Sun ${feature.properties.sunAltitude}° ${feature.properties.sunSide}`,
+        feature.properties.inWindowView ? 'sampleVisible' : 'sample'
+      ))],
+  ] as const;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>HorizonView ${escapeXml(title)}</name>`,
+    '<Style id="route"><LineStyle><color>ff00a5ff</color><width>3</width></LineStyle></Style>',
+    '<Style id="airport"><IconStyle><Icon><href>http://maps.google.com/mapfiles/kml/shapes/airports.png</href></Icon></IconStyle></Style>',
+    '<Style id="sunEvent"><IconStyle><color>ff00d7ff</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/sunny.png</href></Icon></IconStyle></Style>',
+    '<Style id="sample"><IconStyle><scale>0.4</scale><color>ff999999</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/shaded_dot.png</href></Icon></IconStyle><LabelStyle><scale>0</scale></LabelStyle></Style>',
+    '<Style id="sampleVisible"><IconStyle><scale>0.5</scale><color>ff00d7ff</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/shaded_dot.png</href></Icon></IconStyle><LabelStyle><scale>0</scale></LabelStyle></Style>',
+    ...folders.map(([name, placemarks]) => `<Folder><name>${name}</name>${placemarks.join('')}</Folder>`),
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
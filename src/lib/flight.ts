@@ -0,0 +1,671 @@
+import { Airport } from './cities';
+import { geodesicInverse, generateRoutePath, toRoutePath, EarthModel, RoutePath } from './geo';
+import { estimateFlightDuration, extendFlightDuration, setAirborneDuration } from './duration';
+import {
+  calculateFlightSunData,
+  calculateSunRelativeAngle,
+  getFlightTrajectory,
+  getRecommendedSeats,
+  SunEventType,
+  SideScore,
+  LightPhase,
+  DaylightStatus,
+  SeatObjective,
+  DEFAULT_CRUISE_ALTITUDE,
+  FlightSunOptions,
+  WindowFieldOfView,
+} from './sun';
+import { calculateFlightMoonData, MoonPhaseName } from './moon';
+import { findVisibleLandmarks } from './landmarks';
+import { parseWindParam, WindField, WindSeason } from './wind';
+import { getTrackPath, toHeightAboveGround, FlightTrack, TrackFormat } from './track';
+import { assignRunway, findRunwayEnd, RunwaySource } from './runway';
+import { getRelevantTimeZone, isValidTimeZone, parseDepartureTime, DstDisambiguation, LocalDepartureTime } from './time';
+
+export interface ScenicSideScore {
+  score: number; // 0..100
+  visibleMinutes: number;
+  horizonMinutes: number; // sun within 10° of the horizon
+  peakTime: string | null;
+  peakQuality: number; // 0..1
+}
+
+// Everything the UI needs about one flight, in JSON-friendly form
+export interface FlightLegData {
+  departure: {
+    code: string;
+    name: string;
+    city: string;
+    lat: number;
+    lng: number;
+    elevation: number; // meters above sea level
+    timezone: string; // IANA zone
+  };
+  arrival: {
+    code: string;
+    name: string;
+    city: string;
+    lat: number;
+    lng: number;
+    elevation: number; // meters above sea level
+    timezone: string; // IANA zone
+  };
+  distance: number;
+  bearing: number;
+  duration: number; // block time in hours, gate to gate
+  durationModel: {
+    airborneDuration: number; // hours
+    taxiOutMinutes: number;
+    taxiInMinutes: number;
+    climbMinutes: number;
+    cruiseMinutes: number;
+    descentMinutes: number;
+    cruiseSpeed: number; // km/h true airspeed
+    averageWind: number; // km/h along track, positive = tailwind
+    windSeason: WindSeason;
+  };
+  cruiseAltitude: number; // meters
+  objective: SeatObjective;
+  earthModel: EarthModel; // shape of the Earth used for distance, bearing and path
+  resolution: number; // base sun sampling step in minutes, refined near the horizon and in turns
+  track: {
+    format: TrackFormat;
+    points: number;
+    timed: boolean;
+    hasAltitude: boolean; // recorded altitudes replace the climb/cruise/descent ramps
+    hasHeading: boolean; // recorded headings replace the bearing between fixes
+  } | null; // uploaded track the analysis followed, null for the shortest path
+  wind: {
+    field: WindField;
+    maxCorrectionAngle: number; // degrees, largest crab of the nose off the course
+  } | null; // wind the heading was corrected for, null when the nose follows the course
+  runways: {
+    departure: { ident: string; heading: number; source: RunwaySource } | null;
+    arrival: { ident: string; heading: number; source: RunwaySource } | null;
+  }; // runways the takeoff and landing headings follow, null when unknown, off, or for a flown track
+  path: RoutePath;
+  sunData: {
+    scenicSide: 'left' | 'right' | 'both' | 'none';
+    scenicScore: { left: ScenicSideScore; right: ScenicSideScore };
+    shadeSide: 'left' | 'right' | 'both';
+    exposure: { left: number; right: number }; // weighted minutes of direct sun
+    recommendedSeats: string[];
+    daylightStatus: DaylightStatus;
+    sunriseTime: string | null;
+    sunsetTime: string | null;
+    departureSunAltitude: number;
+    arrivalSunAltitude: number;
+    events: {
+      type: SunEventType;
+      time: string;
+      lat: number;
+      lng: number;
+      azimuth: number;
+      side: 'left' | 'right';
+    }[];
+    lightSegments: {
+      phase: LightPhase;
+      start: string;
+      end: string;
+      side: 'left' | 'right' | 'both' | 'none';
+    }[];
+  };
+  moonData: {
+    visibleSide: 'left' | 'right' | 'both' | 'none';
+    illumination: number;
+    phase: number;
+    phaseName: MoonPhaseName;
+    departureMoonAltitude: number;
+    arrivalMoonAltitude: number;
+    events: {
+      type: 'moonrise' | 'moonset';
+      time: string;
+      lat: number;
+      lng: number;
+      azimuth: number;
+      side: 'left' | 'right';
+    }[];
+  };
+  landmarks: {
+    name: string;
+    country: string;
+    lat: number;
+    lng: number;
+    elevation: number; // meters
+    time: string; // closest visible approach
+    distance: number; // km from the aircraft's ground position
+    side: 'left' | 'right';
+  }[];
+  departureTime: string; // gate times
+  arrivalTime: string;
+  takeoffTime: string; // airborne window the sun, moon and landmark analysis covers
+  landingTime: string;
+}
+
+// One entry of the combined itinerary timeline: a light phase on a leg, or a layover
+export interface ItineraryTimelineEntry {
+  type: 'flight' | 'layover';
+  legIndex: number; // leg being flown, or the leg that just landed for a layover
+  start: string;
+  end: string;
+  phase?: LightPhase; // flight entries only
+  side?: 'left' | 'right' | 'both' | 'none'; // flight entries only: side the sun is on
+  airport?: string; // layover entries only
+}
+
+export interface ItineraryData {
+  legs: FlightLegData[];
+  layovers: {
+    airport: string;
+    arrivalTime: string;
+    departureTime: string;
+    minutes: number;
+  }[];
+  timeline: ItineraryTimelineEntry[];
+  totalDuration: number; // hours from first departure to last arrival
+  departureTime: string;
+  arrivalTime: string;
+}
+
+// How long a connection takes when only the first departure is known
+export const DEFAULT_LAYOVER_MINUTES = 120;
+
+export const DEFAULT_RESOLUTION_MINUTES = 5;
+// Spacing of the returned path points; maps thin them further for display
+const PATH_SPACING_KM = 100;
+const MIN_PATH_POINTS = 20;
+
+export interface FlightLegOptions {
+  cruiseAltitude?: number; // meters (default: DEFAULT_CRUISE_ALTITUDE)
+  objective?: SeatObjective; // drives recommendedSeats (default: 'scenic')
+  earthModel?: EarthModel; // geodesic model for the route (default: 'wgs84')
+  track?: FlightTrack; // flown track to analyze instead of the shortest path; altitudes above sea level are re-measured from the airports' ground
+  wind?: WindField | null; // wind to crab into (default: climatology, null: none)
+  resolution?: number; // base sun sampling step in minutes (default: DEFAULT_RESOLUTION_MINUTES)
+  departureRunway?: string | null; // designator to take off from (default: by prevailing wind, null: none)
+  arrivalRunway?: string | null; // designator to land on (default: by prevailing wind, null: none)
+  windowFov?: WindowFieldOfView; // passenger window viewing cone (default: DEFAULT_WINDOW_FOV)
+}
+
+function formatSideScore(side: SideScore): ScenicSideScore {
+  return {
+    score: side.score,
+    visibleMinutes: side.visibleMinutes,
+    horizonMinutes: side.horizonMinutes,
+    peakTime: side.peakTime ? side.peakTime.toISOString() : null,
+    peakQuality: Math.round(side.peakQuality * 100) / 100,
+  };
+}
+
+/**
+ * Largest angle between the heading and the course over a flight, sampled every `options.stepMinutes`
+ */
+function getMaxCorrectionAngle(
+  departure: Airport,
+  arrival: Airport,
+  takeoffTime: Date,
+  duration: number,
+  options: FlightSunOptions
+): number {
+  const trajectory = getFlightTrajectory(
+    departure.lat, departure.lng,
+    arrival.lat, arrival.lng,
+    takeoffTime,
+    duration,
+    options
+  );
+  const { stepMinutes = DEFAULT_RESOLUTION_MINUTES } = options;
+  const steps = Math.max(1, Math.ceil((duration * 60) / stepMinutes));
+  let max = 0;
+  for (let i = 0; i <= steps; i++) {
+    const position = trajectory(new Date(takeoffTime.getTime() + (i / steps) * duration * 60 * 60 * 1000));
+    max = Math.max(max, Math.abs(calculateSunRelativeAngle(position.bearing, position.heading)));
+  }
+  return max;
+}
+
+/**
+ * Run the full sun, moon and landmark analysis for one flight between two airports
+ * @param departureTime Gate departure; ignored for a timestamped track, whose
+ * first fix is taken as the takeoff
+ */
+export function analyzeFlightLeg(
+  departure: Airport,
+  arrival: Airport,
+  departureTime: Date,
+  options: FlightLegOptions = {}
+): FlightLegData {
+  const {
+    cruiseAltitude = DEFAULT_CRUISE_ALTITUDE,
+    objective = 'scenic',
+    earthModel = 'wgs84',
+    track: flownTrack,
+    wind = { source: 'climatology' },
+    resolution = DEFAULT_RESOLUTION_MINUTES,
+    departureRunway,
+    arrivalRunway,
+    windowFov,
+  } = options;
+
+  // Dip of the horizon and landmark visibility need height above the ground
+  const track = flownTrack && toHeightAboveGround(flownTrack, departure.elevation, arrival.elevation);
+
+  // Calculate flight parameters
+  const { distance: routeDistance, initialBearing: bearing } = geodesicInverse(
+    departure.lat, departure.lng,
+    arrival.lat, arrival.lng,
+    earthModel
+  );
+
+  // A flown track replaces the shortest path
+  const distance = track ? track.distance : routeDistance;
+
+  // Sun, moon and landmarks are analyzed over the airborne part of the block time
+  let estimate = estimateFlightDuration(
+    departure.lat, departure.lng,
+    arrival.lat, arrival.lng,
+    departureTime,
+    earthModel
+  );
+  let takeoffTime = new Date(departureTime.getTime() + estimate.taxiOutMinutes * 60 * 1000);
+
+  if (track?.timed) {
+    // Timestamps say when the aircraft actually flew
+    const firstFix = track.points[0].time!;
+    const lastFix = track.points[track.points.length - 1].time!;
+    estimate = setAirborneDuration(estimate, (lastFix.getTime() - firstFix.getTime()) / (60 * 60 * 1000));
+    takeoffTime = firstFix;
+  } else if (track) {
+    estimate = extendFlightDuration(estimate, track.distance - routeDistance);
+  }
+
+  const duration = estimate.airborneDuration;
+  const gateDepartureTime = new Date(takeoffTime.getTime() - estimate.taxiOutMinutes * 60 * 1000);
+  const landingTime = new Date(takeoffTime.getTime() + duration * 60 * 60 * 1000);
+
+  // Takeoff and landing follow the runways, except on a flown track
+  const runways = {
+    departure: track ? null : assignRunway(departure, departureRunway),
+    arrival: track ? null : assignRunway(arrival, arrivalRunway),
+  };
+
+  // Path for drawing, dense enough to follow the curve of long routes
+  const path = track
+    ? toRoutePath(getTrackPath(track))
+    : generateRoutePath(
+      departure.lat, departure.lng,
+      arrival.lat, arrival.lng,
+      Math.max(MIN_PATH_POINTS, Math.ceil(routeDistance / PATH_SPACING_KM)),
+      earthModel
+    );
+
+  // Calculate sun data using custom sunrise/sunset calculation
+  const sunData = calculateFlightSunData(
+    departure.lat, departure.lng,
+    arrival.lat, arrival.lng,
+    takeoffTime,
+    duration,
+    {
+      cruiseAltitude,
+      departureTimeZone: departure.timezone,
+      arrivalTimeZone: arrival.timezone,
+      earthModel,
+      track,
+      wind: wind ?? undefined,
+      runways,
+      stepMinutes: resolution,
+      windowFov,
+    }
+  );
+
+  const recommendedSeats = getRecommendedSeats(
+    objective === 'shade' ? sunData.shadeSide : sunData.scenicSide
+  );
+
+  const moonData = calculateFlightMoonData(
+    departure.lat, departure.lng,
+    arrival.lat, arrival.lng,
+    takeoffTime,
+    duration,
+    { cruiseAltitude, earthModel, track, wind: wind ?? undefined, runways, stepMinutes: resolution, windowFov }
+  );
+
+  const landmarks = findVisibleLandmarks(
+    departure.lat, departure.lng,
+    arrival.lat, arrival.lng,
+    takeoffTime,
+    duration,
+    { cruiseAltitude, earthModel, track, wind: wind ?? undefined, runways, windowFov }
+  );
+
+  const maxCorrectionAngle = wind
+    ? getMaxCorrectionAngle(departure, arrival, takeoffTime, duration, { cruiseAltitude, earthModel, track, wind, stepMinutes: resolution })
+    : 0;
+
+  const arrivalTime = new Date(gateDepartureTime.getTime() + estimate.duration * 60 * 60 * 1000);
+
+  return {
+    departure: {
+      code: departure.code,
+      name: departure.name,
+      city: departure.city,
+      lat: departure.lat,
+      lng: departure.lng,
+      elevation: departure.elevation,
+      timezone: departure.timezone,
+    },
+    arrival: {
+      code: arrival.code,
+      name: arrival.name,
+      city: arrival.city,
+      lat: arrival.lat,
+      lng: arrival.lng,
+      elevation: arrival.elevation,
+      timezone: arrival.timezone,
+    },
+    distance: Math.round(distance),
+    bearing: Math.round(bearing),
+    duration: Math.round(estimate.duration * 10) / 10, // Round to 1 decimal place
+    durationModel: {
+      airborneDuration: Math.round(duration * 100) / 100,
+      taxiOutMinutes: estimate.taxiOutMinutes,
+      taxiInMinutes: estimate.taxiInMinutes,
+      climbMinutes: Math.round(estimate.climbMinutes),
+      cruiseMinutes: Math.round(estimate.cruiseMinutes),
+      descentMinutes: Math.round(estimate.descentMinutes),
+      cruiseSpeed: Math.round(estimate.cruiseSpeed),
+      averageWind: Math.round(estimate.averageWind),
+      windSeason: estimate.season,
+    },
+    cruiseAltitude,
+    objective,
+    earthModel,
+    resolution,
+    track: track
+      ? {
+        format: track.format,
+        points: track.points.length,
+        timed: track.timed,
+        hasAltitude: track.hasAltitude,
+        hasHeading: track.hasHeading,
+      }
+      : null,
+    wind: wind ? { field: wind, maxCorrectionAngle: Math.round(maxCorrectionAngle * 10) / 10 } : null,
+    runways,
+    path,
+    sunData: {
+      scenicSide: sunData.scenicSide,
+      scenicScore: {
+        left: formatSideScore(sunData.scenicScore.left),
+        right: formatSideScore(sunData.scenicScore.right),
+      },
+      shadeSide: sunData.shadeSide,
+      exposure: {
+        left: Math.round(sunData.exposure.left),
+        right: Math.round(sunData.exposure.right),
+      },
+      recommendedSeats,
+      daylightStatus: sunData.daylightStatus,
+      sunriseTime: sunData.sunriseTime ? sunData.sunriseTime.toISOString() : null,
+      sunsetTime: sunData.sunsetTime ? sunData.sunsetTime.toISOString() : null,
+      departureSunAltitude: Math.round(sunData.departureSun.altitude * 10) / 10,
+      arrivalSunAltitude: Math.round(sunData.arrivalSun.altitude * 10) / 10,
+      events: sunData.events.map((event) => ({
+        type: event.type,
+        time: event.time.toISOString(),
+        lat: Math.round(event.lat * 100) / 100,
+        lng: Math.round(event.lng * 100) / 100,
+        azimuth: Math.round(event.azimuth),
+        side: event.side,
+      })),
+      lightSegments: sunData.lightSegments.map((segment) => ({
+        phase: segment.phase,
+        start: segment.start.toISOString(),
+        end: segment.end.toISOString(),
+        side: segment.side,
+      })),
+    },
+    moonData: {
+      visibleSide: moonData.visibleSide,
+      illumination: Math.round(moonData.illumination * 100) / 100,
+      phase: Math.round(moonData.phase * 100) / 100,
+      phaseName: moonData.phaseName,
+      departureMoonAltitude: Math.round(moonData.departureMoon.altitude * 10) / 10,
+      arrivalMoonAltitude: Math.round(moonData.arrivalMoon.altitude * 10) / 10,
+      events: moonData.events.map((event) => ({
+        type: event.type,
+        time: event.time.toISOString(),
+        lat: Math.round(event.lat * 100) / 100,
+        lng: Math.round(event.lng * 100) / 100,
+        azimuth: Math.round(event.azimuth),
+        side: event.side,
+      })),
+    },
+    landmarks: landmarks.map((sighting) => ({
+      name: sighting.landmark.name,
+      country: sighting.landmark.country,
+      lat: sighting.landmark.lat,
+      lng: sighting.landmark.lng,
+      elevation: sighting.landmark.elevation,
+      time: sighting.time.toISOString(),
+      distance: Math.round(sighting.distance),
+      side: sighting.side,
+    })),
+    departureTime: gateDepartureTime.toISOString(),
+    arrivalTime: arrivalTime.toISOString(),
+    takeoffTime: takeoffTime.toISOString(),
+    landingTime: landingTime.toISOString(),
+  };
+}
+
+/**
+ * Timezone to show a time during a leg in: the departure airport's for the
+ * first half of the leg and the arrival airport's for the second
+ */
+export function getLegTimeZone(leg: FlightLegData, time: Date | string): string {
+  return getRelevantTimeZone(
+    new Date(time),
+    new Date(leg.departureTime),
+    new Date(leg.arrivalTime),
+    leg.departure.timezone,
+    leg.arrival.timezone
+  );
+}
+
+/**
+ * Read the optional `alt`, `objective`, `earth`, `wind` and `resolution` query parameters shared by the flight endpoints
+ * @returns The parsed options, or an error message for a 400 response
+ */
+export function parseFlightLegOptions(
+  searchParams: URLSearchParams
+): { options: Required<Omit<FlightLegOptions, 'track' | 'departureRunway' | 'arrivalRunway' | 'windowFov'>> } | { error: string } {
+  const alt = searchParams.get('alt');
+  const objective = searchParams.get('objective') ?? 'scenic';
+  const earthModel = searchParams.get('earth') ?? 'wgs84';
+  const wind = parseWindParam(searchParams.get('wind') ?? 'climatology');
+  const resolutionParam = searchParams.get('resolution');
+
+  const cruiseAltitude = alt ? Number(alt) : DEFAULT_CRUISE_ALTITUDE;
+  if (!Number.isFinite(cruiseAltitude) || cruiseAltitude < 0 || cruiseAltitude > 20000) {
+    return { error: 'Invalid cruise altitude: expected meters between 0 and 20000' };
+  }
+
+  if (objective !== 'scenic' && objective !== 'shade') {
+    return { error: "Invalid objective: expected 'scenic' or 'shade'" };
+  }
+
+  if (earthModel !== 'wgs84' && earthModel !== 'sphere') {
+    return { error: "Invalid earth model: expected 'wgs84' or 'sphere'" };
+  }
+
+  if (wind === undefined) {
+    return { error: "Invalid wind: expected 'climatology', 'none' or '<direction>@<speed>' in degrees and km/h" };
+  }
+
+  const resolution = resolutionParam ? Number(resolutionParam) : DEFAULT_RESOLUTION_MINUTES;
+  if (!Number.isFinite(resolution) || resolution < 0.5 || resolution > 30) {
+    return { error: 'Invalid resolution: expected minutes between 0.5 and 30' };
+  }
+
+  return { options: { cruiseAltitude, objective, earthModel, wind, resolution } };
+}
+
+/**
+ * Read the optional `depRunway` and `arrRunway` query parameters: a runway
+ * designator at the first departure or last arrival airport, `auto` (the
+ * default) to pick by the prevailing wind, or `none` to leave takeoff and
+ * landing along the route
+ * @returns The runway options, or an error message for a 400 response
+ */
+export function parseRunwayChoices(
+  searchParams: URLSearchParams,
+  departure: Airport,
+  arrival: Airport
+): { options: Pick<FlightLegOptions, 'departureRunway' | 'arrivalRunway'> } | { error: string } {
+  const options: Pick<FlightLegOptions, 'departureRunway' | 'arrivalRunway'> = {};
+
+  for (const [param, airport, key] of [
+    ['depRunway', departure, 'departureRunway'],
+    ['arrRunway', arrival, 'arrivalRunway'],
+  ] as const) {
+    const value = searchParams.get(param)?.trim() || 'auto';
+    if (value === 'auto') continue;
+    if (value === 'none') {
+      options[key] = null;
+      continue;
+    }
+
+    const end = findRunwayEnd(airport, value);
+    if (!end) {
+      const idents = airport.runways.flatMap((runway) => runway.ends.map((runwayEnd) => runwayEnd.ident));
+      return {
+        error: idents.length > 0
+          ? `Invalid ${param}: ${airport.code} has runways ${idents.join(', ')}`
+          : `Invalid ${param}: no runway data for ${airport.code}`,
+      };
+    }
+    options[key] = end.ident;
+  }
+
+  return { options };
+}
+
+/**
+ * Read the `dt`, `tz` and `dst` query parameters shared by the flight endpoints.
+ * `dt` holds one departure time, or one per leg comma-separated; a wall-clock
+ * time without an offset is read in `tz`, or else in the timezone of the
+ * airport that leg departs from.
+ * @param departureAirports Departure airport of each leg, in order
+ * @returns The departure instants and how each was read (empty without `dt`),
+ * or an error message for a 400 response
+ */
+export function parseDepartureTimes(
+  searchParams: URLSearchParams,
+  departureAirports: Airport[]
+): { times: Date[]; departures: LocalDepartureTime[] } | { error: string } {
+  const dt = searchParams.get('dt');
+  const tz = searchParams.get('tz');
+  const dst = searchParams.get('dst') ?? 'compatible';
+
+  if (tz && !isValidTimeZone(tz)) {
+    return { error: "Invalid tz: expected an IANA timezone such as 'Asia/Tokyo'" };
+  }
+
+  if (dst !== 'compatible' && dst !== 'earlier' && dst !== 'later' && dst !== 'reject') {
+    return { error: "Invalid dst: expected 'compatible', 'earlier', 'later' or 'reject'" };
+  }
+
+  const values = dt ? dt.split(',') : [];
+  if (values.length > departureAirports.length) {
+    return { error: 'Expected one departure time, or one per leg' };
+  }
+
+  const times: Date[] = [];
+  const departures: LocalDepartureTime[] = [];
+  for (const [index, value] of values.entries()) {
+    const parsed = parseDepartureTime(value, tz ?? departureAirports[index].timezone, dst as DstDisambiguation);
+    if ('error' in parsed) return parsed;
+    times.push(parsed.time);
+    departures.push(parsed.departure);
+  }
+
+  return { times, departures };
+}
+
+/**
+ * Analyze a connecting itinerary leg by leg
+ * @param airports Ordered stops, at least two
+ * @param schedule Either a departure time for every leg, or the first
+ * departure plus layover minutes at each connection (default: DEFAULT_LAYOVER_MINUTES)
+ * @param options Options for every leg; `departureRunway` only applies to the
+ * first leg and `arrivalRunway` to the last
+ * @returns The combined itinerary, or an error when a leg would depart before
+ * the previous one lands
+ */
+export function analyzeItinerary(
+  airports: Airport[],
+  schedule: { departureTimes: Date[]; layoverMinutes?: number[] },
+  options: FlightLegOptions = {}
+): { data: ItineraryData } | { error: string } {
+  const legs: FlightLegData[] = [];
+  const layovers: ItineraryData['layovers'] = [];
+  const timeline: ItineraryTimelineEntry[] = [];
+
+  for (let i = 0; i < airports.length - 1; i++) {
+    let departureTime = schedule.departureTimes[i];
+
+    if (i > 0) {
+      const previousArrival = new Date(legs[i - 1].arrivalTime);
+      departureTime ??= new Date(
+        previousArrival.getTime() +
+        (schedule.layoverMinutes?.[i - 1] ?? DEFAULT_LAYOVER_MINUTES) * 60 * 1000
+      );
+      if (departureTime < previousArrival) {
+        return {
+          error: `Leg ${i + 1} departs from ${airports[i].code} before leg ${i} arrives`,
+        };
+      }
+
+      layovers.push({
+        airport: airports[i].code,
+        arrivalTime: previousArrival.toISOString(),
+        departureTime: departureTime.toISOString(),
+        minutes: Math.round((departureTime.getTime() - previousArrival.getTime()) / 60000),
+      });
+      timeline.push({
+        type: 'layover',
+        legIndex: i - 1,
+        start: previousArrival.toISOString(),
+        end: departureTime.toISOString(),
+        airport: airports[i].code,
+      });
+    }
+
+    // Runway choices are for the trip's first takeoff and last landing
+    const leg = analyzeFlightLeg(airports[i], airports[i + 1], departureTime, {
+      ...options,
+      departureRunway: i === 0 ? options.departureRunway : undefined,
+      arrivalRunway: i === airports.length - 2 ? options.arrivalRunway : undefined,
+    });
+    legs.push(leg);
+    for (const segment of leg.sunData.lightSegments) {
+      timeline.push({ type: 'flight', legIndex: i, ...segment });
+    }
+  }
+
+  const departureTime = legs[0].departureTime;
+  const arrivalTime = legs[legs.length - 1].arrivalTime;
+
+  return {
+    data: {
+      legs,
+      layovers,
+      timeline,
+      totalDuration: Math.round(
+        (new Date(arrivalTime).getTime() - new Date(departureTime).getTime()) / 360000
+      ) / 10,
+      departureTime,
+      arrivalTime,
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { geoInterpolate } from 'd3-geo';
+import { geoDistance, geoInterpolate } from 'd3-geo';
 
 /**
  * Calculate the Haversine distance between two points on Earth
@@ -29,13 +29,27 @@ export function haversineDistance(
   return R * c;
 }
 
+// Beyond this separation (degrees of arc) the great circle between two points
+// is numerically ill-defined, and for exact antipodes every meridian is as short
+const NEAR_ANTIPODAL_DEGREES = 179.5;
+// Initial bearing every nearly antipodal route is pinned to: due north
+const NEAR_ANTIPODAL_BEARING = 0;
+
+/**
+ * Whether two points are too close to antipodal for a well-defined great circle
+ */
+function isNearlyAntipodal(lat1: number, lng1: number, lat2: number, lng2: number): boolean {
+  return toDegrees(geoDistance([lng1, lat1], [lng2, lat2])) > NEAR_ANTIPODAL_DEGREES;
+}
+
 /**
  * Calculate the bearing (direction) from point A to point B
  * @param lat1 Latitude of starting point in degrees
  * @param lng1 Longitude of starting point in degrees
  * @param lat2 Latitude of ending point in degrees
  * @param lng2 Longitude of ending point in degrees
- * @returns Bearing in degrees (0° = North, 90° = East)
+ * @returns Bearing in degrees (0° = North, 90° = East); NEAR_ANTIPODAL_BEARING
+ * for nearly antipodal points, the way their paths are drawn
  */
 export function calculateBearing(
   lat1: number,
@@ -43,6 +57,8 @@ export function calculateBearing(
   lat2: number,
   lng2: number
 ): number {
+  if (isNearlyAntipodal(lat1, lng1, lat2, lng2)) return NEAR_ANTIPODAL_BEARING;
+
   const dLng = (lng2 - lng1) * Math.PI / 180;
 
   const y = Math.sin(dLng) * Math.cos(lat2 * Math.PI / 180);
@@ -53,6 +69,45 @@ export function calculateBearing(
   return (bearing + 360) % 360;
 }
 
+
+/**
+ * Point reached from a start point along a bearing on the sphere
+ * @param angle Angular distance in degrees
+ */
+function sphericalDestination(lat: number, lng: number, bearing: number, angle: number): [number, number] {
+  const lat1 = toRadians(lat);
+  const theta = toRadians(bearing);
+  const delta = toRadians(angle);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(theta));
+  const lng2 = toRadians(lng) + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+    Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [normalizeLongitude(toDegrees(lng2)), toDegrees(lat2)];
+}
+
+/**
+ * Great-circle interpolator returning [lng, lat] at a fraction of the route.
+ * Nearly antipodal pairs are pinned through a midpoint along
+ * NEAR_ANTIPODAL_BEARING, so they always get the same well-defined path.
+ */
+function createGreatCircleInterpolator(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number
+): (fraction: number) => [number, number] {
+  const start: [number, number] = [startLng, startLat];
+  const end: [number, number] = [endLng, endLat];
+  if (!isNearlyAntipodal(startLat, startLng, endLat, endLng)) return geoInterpolate(start, end);
+
+  const separation = toDegrees(geoDistance(start, end));
+  const mid = sphericalDestination(startLat, startLng, NEAR_ANTIPODAL_BEARING, separation / 2);
+  const firstHalf = geoInterpolate(start, mid);
+  const secondHalf = geoInterpolate(mid, end);
+  return (fraction) => (fraction <= 0.5 ? firstHalf(fraction * 2) : secondHalf(fraction * 2 - 1));
+}
+
 /**
  * Generate great-circle path points between two coordinates
  * @param startLat Starting latitude
@@ -69,7 +124,7 @@ export function generateGreatCirclePath(
   endLng: number,
   numPoints: number = 100
 ): [number, number][] {
-  const interpolate = geoInterpolate([startLng, startLat], [endLng, endLat]);
+  const interpolate = createGreatCircleInterpolator(startLat, startLng, endLat, endLng);
   const path: [number, number][] = [];
 
   for (let i = 0; i <= numPoints; i++) {
@@ -80,6 +135,414 @@ export function generateGreatCirclePath(
   return path;
 }
 
+/**
+ * Build a function that returns points along the great circle between two
+ * coordinates, so the interpolator is set up once for the whole route
+ * @returns Latitude, longitude and forward bearing at a fraction (0 = start, 1 = end)
+ */
+export function createGreatCircleLine(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number
+): (fraction: number) => { lat: number; lng: number; bearing: number } {
+  const interpolate = createGreatCircleInterpolator(startLat, startLng, endLat, endLng);
+
+  return (fraction) => {
+    const f = Math.max(0, Math.min(1, fraction));
+    const [lng, lat] = interpolate(f);
+
+    // Forward bearing from a point just behind/ahead of the current one
+    const step = 0.001;
+    const bearing = f + step <= 1
+      ? calculateBearing(lat, lng, interpolate(f + step)[1], interpolate(f + step)[0])
+      : calculateBearing(interpolate(f - step)[1], interpolate(f - step)[0], lat, lng);
+
+    return { lat, lng, bearing };
+  };
+}
+
+/**
+ * Interpolate a single point along the great circle between two coordinates
+ * (use createGreatCircleLine for many points on the same route)
+ * @param startLat Starting latitude
+ * @param startLng Starting longitude
+ * @param endLat Ending latitude
+ * @param endLng Ending longitude
+ * @param fraction Fraction of the route covered (0 = start, 1 = end)
+ * @returns Latitude, longitude and forward bearing at that point
+ */
+export function interpolateGreatCircle(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number,
+  fraction: number
+): { lat: number; lng: number; bearing: number } {
+  return createGreatCircleLine(startLat, startLng, endLat, endLng)(fraction);
+}
+
+// Earth shape used for distance, bearing and path calculations
+export type EarthModel = 'sphere' | 'wgs84';
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137; // semi-major axis, meters
+const WGS84_F = 1 / 298.257223563; // flattening
+const WGS84_B = WGS84_A * (1 - WGS84_F); // semi-minor axis, meters
+
+export interface GeodesicInverse {
+  distance: number; // kilometers
+  initialBearing: number; // degrees at the start point
+  finalBearing: number; // degrees on arrival at the end point
+}
+
+/**
+ * Vincenty's inverse solution on the WGS84 ellipsoid
+ * @returns Distance and bearings, or null for nearly antipodal points, which
+ * are pinned on the sphere instead, or where the iteration does not converge
+ */
+export function vincentyInverse(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): GeodesicInverse | null {
+  if (isNearlyAntipodal(lat1, lng1, lat2, lng2)) return null;
+
+  const f = WGS84_F;
+  const L = toRadians(lng2 - lng1);
+  const U1 = Math.atan((1 - f) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - f) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinLambda = 0, cosLambda = 0;
+  let sinSigma = 0, cosSigma = 0, sigma = 0;
+  let cosSqAlpha = 0, cos2SigmaM = 0;
+  let converged = false;
+
+  for (let i = 0; i < 200; i++) {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 +
+      (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) {
+      return { distance: 0, initialBearing: 0, finalBearing: 0 }; // coincident points
+    }
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0; // equatorial line
+    const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * f * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    if (Math.abs(lambda - previous) < 1e-12) {
+      converged = true;
+      break;
+    }
+  }
+  if (!converged) return null;
+
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+    cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+    (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+  ));
+
+  const initialBearing = toDegrees(Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda));
+  const finalBearing = toDegrees(Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda));
+
+  return {
+    distance: (WGS84_B * A * (sigma - deltaSigma)) / 1000,
+    initialBearing: (initialBearing + 360) % 360,
+    finalBearing: (finalBearing + 360) % 360,
+  };
+}
+
+/**
+ * Vincenty's direct solution on the WGS84 ellipsoid
+ * @param bearing Initial bearing in degrees
+ * @param distance Distance to travel in kilometers
+ * @returns End point and the bearing of travel there
+ */
+export function vincentyDirect(
+  lat: number,
+  lng: number,
+  bearing: number,
+  distance: number
+): { lat: number; lng: number; bearing: number } {
+  const f = WGS84_F;
+  const s = distance * 1000;
+  const alpha1 = toRadians(bearing);
+  const sinAlpha1 = Math.sin(alpha1), cosAlpha1 = Math.cos(alpha1);
+
+  const U1 = Math.atan((1 - f) * Math.tan(toRadians(lat)));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sigma1 = Math.atan2(Math.tan(U1), cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+
+  let sigma = s / (WGS84_B * A);
+  let sinSigma = 0, cosSigma = 0, cos2SigmaM = 0;
+
+  for (let i = 0; i < 200; i++) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+      cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+      (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+    ));
+    const previous = sigma;
+    sigma = s / (WGS84_B * A) + deltaSigma;
+    if (Math.abs(sigma - previous) < 1e-12) break;
+  }
+
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const lat2 = Math.atan2(
+    sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+    (1 - f) * Math.sqrt(sinAlpha * sinAlpha + x * x)
+  );
+  const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+  const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+  const L = lambda - (1 - C) * f * sinAlpha *
+    (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+  return {
+    lat: toDegrees(lat2),
+    lng: normalizeLongitude(lng + toDegrees(L)),
+    bearing: (toDegrees(Math.atan2(sinAlpha, -x)) + 360) % 360,
+  };
+}
+
+/**
+ * Distance and bearings between two points on the chosen Earth model.
+ * Nearly antipodal pairs fall back to the sphere on WGS84.
+ */
+export function geodesicInverse(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+  model: EarthModel = 'wgs84'
+): GeodesicInverse {
+  if (model === 'wgs84') {
+    const result = vincentyInverse(lat1, lng1, lat2, lng2);
+    if (result) return result;
+  }
+  return {
+    distance: haversineDistance(lat1, lng1, lat2, lng2),
+    initialBearing: calculateBearing(lat1, lng1, lat2, lng2),
+    finalBearing: (calculateBearing(lat2, lng2, lat1, lng1) + 180) % 360,
+  };
+}
+
+/**
+ * Build a function that returns points along the shortest path between two
+ * coordinates on the chosen Earth model, by fraction of the distance covered
+ * @returns Latitude, longitude and forward bearing at a fraction (0 = start, 1 = end)
+ */
+export function createGeodesicLine(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number,
+  model: EarthModel = 'wgs84'
+): (fraction: number) => { lat: number; lng: number; bearing: number } {
+  const inverse = model === 'wgs84' ? vincentyInverse(startLat, startLng, endLat, endLng) : null;
+  if (!inverse) return createGreatCircleLine(startLat, startLng, endLat, endLng);
+
+  return (fraction) => {
+    const f = Math.max(0, Math.min(1, fraction));
+    if (f === 0) return { lat: startLat, lng: startLng, bearing: inverse.initialBearing };
+    return vincentyDirect(startLat, startLng, inverse.initialBearing, inverse.distance * f);
+  };
+}
+
+/**
+ * Generate shortest-path points between two coordinates on the chosen Earth model
+ * @param numPoints Number of points to generate (default: 100)
+ * @returns Array of [longitude, latitude] coordinate pairs
+ */
+export function generateGeodesicPath(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number,
+  numPoints: number = 100,
+  model: EarthModel = 'wgs84'
+): [number, number][] {
+  if (model === 'sphere') return generateGreatCirclePath(startLat, startLng, endLat, endLng, numPoints);
+
+  const line = createGeodesicLine(startLat, startLng, endLat, endLng, model);
+  const path: [number, number][] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    const point = line(i / numPoints);
+    path.push([point.lng, point.lat]);
+  }
+  return path;
+}
+
+// A route ready for both drawing and math
+export interface RoutePath {
+  segments: [number, number][][]; // [lng, lat] runs within [-180, 180], split where the route crosses the antimeridian
+  unwrapped: [number, number][]; // [lng, lat] with continuous longitudes (may go past ±180)
+}
+
+// Longitude jump between neighbouring points that can only mean passing over a pole
+const POLE_JUMP_DEGREES = 150;
+// Points this close to the antimeridian or a pole count as lying on it
+const SPLIT_EPSILON = 1e-9;
+
+/**
+ * Make longitudes continuous along a path, so a route crossing the
+ * antimeridian goes e.g. 170 → 190 instead of 170 → -170. Points on a pole
+ * take the longitude of the point before them.
+ * @returns Array of [longitude, latitude] pairs
+ */
+export function unwrapLongitudes(path: [number, number][]): [number, number][] {
+  const unwrapped: [number, number][] = [];
+  let offset = 0;
+
+  path.forEach(([lng, lat], i) => {
+    if (i === 0) {
+      unwrapped.push([lng, lat]);
+      return;
+    }
+    const previous = unwrapped[i - 1][0];
+    if (90 - Math.abs(lat) < SPLIT_EPSILON) {
+      unwrapped.push([previous, lat]);
+      return;
+    }
+    const step = lng + offset - previous;
+    if (step > 180) offset -= 360;
+    else if (step < -180) offset += 360;
+    unwrapped.push([lng + offset, lat]);
+  });
+
+  return unwrapped;
+}
+
+/**
+ * Split a path into runs that never cross the antimeridian, adding the
+ * crossing point at ±180 to both sides. Passing over a pole (which a
+ * Mercator map cannot draw) also starts a new run.
+ * @returns Runs of [longitude, latitude] pairs with longitudes in [-180, 180]
+ */
+export function splitAtAntimeridian(path: [number, number][]): [number, number][][] {
+  const unwrapped = unwrapLongitudes(path);
+  if (unwrapped.length === 0) return [];
+
+  const segments: [number, number][][] = [];
+  let current: [number, number][] = [];
+  // Multiple of 360 taken off the unwrapped longitudes of the current run
+  let offset = 360 * Math.round(unwrapped[0][0] / 360);
+
+  unwrapped.forEach(([lng, lat], i) => {
+    if (i > 0) {
+      const [prevLng, prevLat] = unwrapped[i - 1];
+      const low = Math.min(lng, prevLng);
+      const high = Math.max(lng, prevLng);
+      const boundary = Math.ceil((low + 180) / 360) * 360 - 180;
+
+      if (high - low > POLE_JUMP_DEGREES) {
+        segments.push(current);
+        current = [];
+        offset = 360 * Math.round(lng / 360);
+      } else if (boundary > low + SPLIT_EPSILON && boundary < high - SPLIT_EPSILON) {
+        const crossingLat = prevLat + ((lat - prevLat) * (boundary - prevLng)) / (lng - prevLng);
+        current.push([boundary - offset, crossingLat]);
+        segments.push(current);
+        offset += lng > prevLng ? 360 : -360;
+        current = [[boundary - offset, crossingLat]];
+      }
+    }
+    current.push([lng - offset, lat]);
+  });
+
+  segments.push(current);
+  return segments.filter((segment) => segment.length > 1);
+}
+
+/**
+ * Drawing segments and continuous longitudes for a path
+ */
+export function toRoutePath(path: [number, number][]): RoutePath {
+  return { segments: splitAtAntimeridian(path), unwrapped: unwrapLongitudes(path) };
+}
+
+/**
+ * Generate an antimeridian-safe shortest path between two coordinates on the chosen Earth model
+ * @param numPoints Number of points to generate (default: 100)
+ */
+export function generateRoutePath(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number,
+  numPoints: number = 100,
+  model: EarthModel = 'wgs84'
+): RoutePath {
+  return toRoutePath(generateGeodesicPath(startLat, startLng, endLat, endLng, numPoints, model));
+}
+
+/**
+ * Drop points that do not move a line by more than a tolerance (Douglas-Peucker),
+ * e.g. to thin a projected path down to what is visible at the map's scale
+ * @param points Planar [x, y] points
+ * @param tolerance Largest distance a dropped point may be from the simplified line, in the points' units
+ * @returns The kept points, always including the first and last
+ */
+export function simplifyPath(points: [number, number][], tolerance: number): [number, number][] {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const [x1, y1] = points[first];
+    const [x2, y2] = points[last];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const [x, y] = points[i];
+      const distance = length === 0
+        ? Math.hypot(x - x1, y - y1)
+        : Math.abs((x2 - x1) * (y1 - y) - (x1 - x) * (y2 - y1)) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
 /**
  * Calculate flight duration based on distance (simplified model)
  * @param distance Distance in kilometers
@@ -0,0 +1,160 @@
+import { calculateBearing, geodesicInverse, haversineDistance } from './geo';
+import {
+  calculateSunRelativeAngle,
+  getFlightTrajectory,
+  getWindowViewSide,
+  DEFAULT_WINDOW_FOV,
+  FlightSunOptions,
+} from './sun';
+
+export interface Landmark {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+  elevation: number; // meters above sea level
+  visibilityRadius: number; // km from the ground track within which it can be picked out from cruise
+}
+
+export interface LandmarkSighting {
+  landmark: Landmark;
+  time: Date; // closest visible approach
+  lat: number; // aircraft position at that time
+  lng: number;
+  distance: number; // km from the aircraft's ground position
+  side: 'left' | 'right';
+}
+
+// Landmarks passengers commonly ask about
+export const LANDMARKS: Landmark[] = [
+  // Asia
+  { name: 'Mount Fuji', country: 'Japan', lat: 35.3606, lng: 138.7274, elevation: 3776, visibilityRadius: 150 },
+  { name: 'Mount Everest', country: 'Nepal', lat: 27.9881, lng: 86.925, elevation: 8849, visibilityRadius: 250 },
+  { name: 'K2', country: 'Pakistan', lat: 35.8825, lng: 76.5133, elevation: 8611, visibilityRadius: 200 },
+  { name: 'Mount Kinabalu', country: 'Malaysia', lat: 6.0753, lng: 116.5586, elevation: 4095, visibilityRadius: 120 },
+  { name: 'Lake Baikal', country: 'Russia', lat: 53.5587, lng: 108.165, elevation: 456, visibilityRadius: 200 },
+  { name: 'Mount Ararat', country: 'Turkey', lat: 39.7019, lng: 44.2983, elevation: 5137, visibilityRadius: 150 },
+  { name: 'Dead Sea', country: 'Jordan', lat: 31.559, lng: 35.4732, elevation: -430, visibilityRadius: 60 },
+
+  // Europe
+  { name: 'Mont Blanc', country: 'France', lat: 45.8326, lng: 6.8652, elevation: 4806, visibilityRadius: 150 },
+  { name: 'Matterhorn', country: 'Switzerland', lat: 45.9763, lng: 7.6586, elevation: 4478, visibilityRadius: 120 },
+  { name: 'Mount Etna', country: 'Italy', lat: 37.751, lng: 14.9934, elevation: 3357, visibilityRadius: 120 },
+  { name: 'Mount Elbrus', country: 'Russia', lat: 43.3499, lng: 42.4453, elevation: 5642, visibilityRadius: 180 },
+  { name: 'Vatnajökull', country: 'Iceland', lat: 64.4167, lng: -16.8333, elevation: 2110, visibilityRadius: 150 },
+  { name: 'Strait of Gibraltar', country: 'Spain', lat: 35.9667, lng: -5.5, elevation: 0, visibilityRadius: 60 },
+
+  // North America
+  { name: 'Greenland Ice Sheet', country: 'Greenland', lat: 72.0, lng: -40.0, elevation: 3200, visibilityRadius: 400 },
+  { name: 'Grand Canyon', country: 'USA', lat: 36.1069, lng: -112.1129, elevation: 2100, visibilityRadius: 80 },
+  { name: 'Mount Rainier', country: 'USA', lat: 46.8523, lng: -121.7603, elevation: 4392, visibilityRadius: 150 },
+  { name: 'Mount St. Helens', country: 'USA', lat: 46.1914, lng: -122.1956, elevation: 2549, visibilityRadius: 100 },
+  { name: 'Denali', country: 'USA', lat: 63.0692, lng: -151.007, elevation: 6190, visibilityRadius: 200 },
+  { name: 'Mauna Kea', country: 'USA', lat: 19.8207, lng: -155.4681, elevation: 4207, visibilityRadius: 180 },
+  { name: 'Niagara Falls', country: 'Canada', lat: 43.0962, lng: -79.0377, elevation: 100, visibilityRadius: 40 },
+  { name: 'Popocatépetl', country: 'Mexico', lat: 19.0225, lng: -98.6278, elevation: 5426, visibilityRadius: 150 },
+
+  // South America
+  { name: 'Aconcagua', country: 'Argentina', lat: -32.6532, lng: -70.0109, elevation: 6961, visibilityRadius: 200 },
+  { name: 'Chimborazo', country: 'Ecuador', lat: -1.4693, lng: -78.8169, elevation: 6263, visibilityRadius: 180 },
+  { name: 'Iguazu Falls', country: 'Brazil', lat: -25.6953, lng: -54.4367, elevation: 200, visibilityRadius: 40 },
+
+  // Africa
+  { name: 'Mount Kilimanjaro', country: 'Tanzania', lat: -3.0674, lng: 37.3556, elevation: 5895, visibilityRadius: 150 },
+  { name: 'Pyramids of Giza', country: 'Egypt', lat: 29.9792, lng: 31.1342, elevation: 140, visibilityRadius: 30 },
+  { name: 'Richat Structure', country: 'Mauritania', lat: 21.1269, lng: -11.4016, elevation: 400, visibilityRadius: 60 },
+  { name: 'Table Mountain', country: 'South Africa', lat: -33.9628, lng: 18.4098, elevation: 1085, visibilityRadius: 60 },
+
+  // Oceania
+  { name: 'Uluru', country: 'Australia', lat: -25.3444, lng: 131.0369, elevation: 863, visibilityRadius: 60 },
+  { name: 'Great Barrier Reef', country: 'Australia', lat: -18.2871, lng: 147.6992, elevation: 0, visibilityRadius: 100 },
+  { name: 'Aoraki / Mount Cook', country: 'New Zealand', lat: -43.595, lng: 170.1418, elevation: 3724, visibilityRadius: 120 },
+];
+
+// Typical ground-track spacing of the sampled flight
+const SAMPLE_SPACING_KM = 10;
+// Earth radius bent by terrestrial refraction, for line-of-sight geometry
+const EFFECTIVE_EARTH_RADIUS_M = 6371000 / (1 - 0.13);
+
+/**
+ * Distance to the visible horizon from a height
+ * @returns Distance in kilometers
+ */
+function horizonDistance(height: number): number {
+  return Math.sqrt(2 * EFFECTIVE_EARTH_RADIUS_M * Math.max(height, 0)) / 1000;
+}
+
+/**
+ * Angle of a landmark above the aircraft's horizontal plane, allowing for
+ * Earth curvature and terrestrial refraction (negative = looking down)
+ */
+function landmarkElevationAngle(distanceKm: number, aircraftAltitude: number, landmarkElevation: number): number {
+  const distance = Math.max(distanceKm * 1000, 1);
+  const drop = (distance * distance) / (2 * EFFECTIVE_EARTH_RADIUS_M);
+  return (Math.atan2(landmarkElevation - aircraftAltitude - drop, distance) * 180) / Math.PI;
+}
+
+/**
+ * List landmarks that pass within view of a window along the route
+ * @returns One sighting per landmark at its closest visible approach, in flight order
+ */
+export function findVisibleLandmarks(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {}
+): LandmarkSighting[] {
+  const { windowFov = DEFAULT_WINDOW_FOV, earthModel = 'wgs84', track } = options;
+  if (flightDuration <= 0) return [];
+
+  const routeDistance = track
+    ? track.distance
+    : geodesicInverse(departureLat, departureLng, arrivalLat, arrivalLng, earthModel).distance;
+  const numPoints = Math.max(100, Math.ceil(routeDistance / SAMPLE_SPACING_KM));
+  const trajectory = getFlightTrajectory(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options
+  );
+
+  // Sample the flight at even time steps; the trajectory says where the aircraft is then
+  const samples = Array.from({ length: numPoints + 1 }, (_, i) => {
+    const time = new Date(departureTime.getTime() + (i / numPoints) * flightDuration * 60 * 60 * 1000);
+    return { time, ...trajectory(time) };
+  });
+
+  const sightings: LandmarkSighting[] = [];
+
+  for (const landmark of LANDMARKS) {
+    let best: LandmarkSighting | null = null;
+
+    for (const { time, lat, lng, heading, altitude } of samples) {
+      const distance = haversineDistance(lat, lng, landmark.lat, landmark.lng);
+      if (distance > landmark.visibilityRadius) continue;
+      if (best && distance >= best.distance) continue;
+
+      const relativeAngle = calculateSunRelativeAngle(
+        heading,
+        calculateBearing(lat, lng, landmark.lat, landmark.lng)
+      );
+
+      // Nothing hidden behind the curve of the Earth can be seen
+      if (distance > horizonDistance(altitude) + horizonDistance(landmark.elevation)) continue;
+
+      const elevation = landmarkElevationAngle(distance, altitude, landmark.elevation);
+      const side = getWindowViewSide(relativeAngle, elevation, windowFov);
+      if (!side) continue;
+
+      best = { landmark, time, lat, lng, distance, side };
+    }
+
+    if (best) sightings.push(best);
+  }
+
+  return sightings.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
@@ -0,0 +1,172 @@
+import * as SunCalc from 'suncalc';
+import {
+  calculateHorizonDip,
+  calculateSunRelativeAngle,
+  getFlightTrajectory,
+  combineViewSides,
+  findAltitudeCrossings,
+  getWindowViewSide,
+  DEFAULT_WINDOW_FOV,
+  FlightSunOptions,
+} from './sun';
+
+export interface MoonPosition {
+  azimuth: number; // degrees from north, clockwise
+  altitude: number; // degrees above the observer's visible horizon
+}
+
+export interface MoonEvent {
+  type: 'moonrise' | 'moonset';
+  time: Date;
+  lat: number; // aircraft position when the crossing happens
+  lng: number;
+  azimuth: number;
+  side: 'left' | 'right';
+}
+
+export type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+export interface FlightMoonData {
+  departureMoon: MoonPosition;
+  arrivalMoon: MoonPosition;
+  visibleSide: 'left' | 'right' | 'both' | 'none';
+  illumination: number; // illuminated fraction, 0..1
+  phase: number; // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  phaseName: MoonPhaseName;
+  events: MoonEvent[];
+}
+
+// Altitude of the moon's centre at rise/set (parallax minus refraction and semidiameter)
+const MOONRISE_ALTITUDE = 0.133;
+
+/**
+ * Get moon position at a specific location and time
+ * @param observerAltitude Observer height in meters; the altitude returned is
+ * measured from the visible horizon
+ */
+export function getMoonPosition(
+  date: Date,
+  lat: number,
+  lng: number,
+  observerAltitude: number = 0
+): MoonPosition {
+  const pos = SunCalc.getMoonPosition(date, lat, lng);
+
+  let azimuth = ((pos.azimuth * 180) / Math.PI + 180) % 360;
+  if (azimuth < 0) azimuth += 360;
+
+  return {
+    azimuth,
+    altitude: (pos.altitude * 180) / Math.PI + calculateHorizonDip(observerAltitude),
+  };
+}
+
+/**
+ * Name the lunar phase for a SunCalc phase value
+ */
+export function getMoonPhaseName(phase: number): MoonPhaseName {
+  const names: MoonPhaseName[] = [
+    'New Moon',
+    'Waxing Crescent',
+    'First Quarter',
+    'Waxing Gibbous',
+    'Full Moon',
+    'Waning Gibbous',
+    'Last Quarter',
+    'Waning Crescent',
+  ];
+  return names[Math.round(phase * 8) % 8];
+}
+
+/**
+ * Is the moon above the horizon visible from the cabin?
+ */
+export function isMoonUp(moon: MoonPosition): boolean {
+  return moon.altitude > MOONRISE_ALTITUDE;
+}
+
+/**
+ * Compute moon behaviour for the flight: position at both ends, phase,
+ * which side it is on while up, and moonrise/moonset crossings along the path
+ */
+export function calculateFlightMoonData(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {}
+): FlightMoonData {
+  const { stepMinutes = 5, windowFov = DEFAULT_WINDOW_FOV } = options;
+  const arrivalTime = new Date(departureTime.getTime() + flightDuration * 60 * 60 * 1000);
+
+  const departureMoon = getMoonPosition(departureTime, departureLat, departureLng);
+  const arrivalMoon = getMoonPosition(arrivalTime, arrivalLat, arrivalLng);
+
+  // Illumination changes little over a flight; use the midpoint
+  const midTime = new Date((departureTime.getTime() + arrivalTime.getTime()) / 2);
+  const illumination = SunCalc.getMoonIllumination(midTime);
+
+  const trajectory = getFlightTrajectory(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options
+  );
+  const moonAt = (time: Date) => {
+    const position = trajectory(time);
+    return { position, moon: getMoonPosition(time, position.lat, position.lng, position.altitude) };
+  };
+
+  const events: MoonEvent[] = flightDuration > 0
+    ? findAltitudeCrossings(
+      (time) => moonAt(time).moon.altitude,
+      departureTime,
+      arrivalTime,
+      [MOONRISE_ALTITUDE],
+      stepMinutes
+    ).map((crossing) => {
+      const { position, moon } = moonAt(crossing.time);
+      return {
+        type: crossing.rising ? 'moonrise' : 'moonset',
+        time: crossing.time,
+        lat: position.lat,
+        lng: position.lng,
+        azimuth: moon.azimuth,
+        side: calculateSunRelativeAngle(position.heading, moon.azimuth) >= 0 ? 'right' : 'left',
+      };
+    })
+    : [];
+
+  // Sample the flight every step for the windows that see the moon while it is up
+  const samples = Math.max(1, Math.ceil((flightDuration * 60) / stepMinutes));
+  const sides: ('left' | 'right' | null)[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const time = new Date(departureTime.getTime() + (flightDuration * i / samples) * 60 * 60 * 1000);
+    const { position, moon } = moonAt(time);
+    if (isMoonUp(moon)) {
+      const elevation = moon.altitude - calculateHorizonDip(position.altitude);
+      sides.push(getWindowViewSide(calculateSunRelativeAngle(position.heading, moon.azimuth), elevation, windowFov));
+    }
+  }
+
+  return {
+    departureMoon,
+    arrivalMoon,
+    visibleSide: combineViewSides(sides),
+    illumination: illumination.fraction,
+    phase: illumination.phase,
+    phaseName: getMoonPhaseName(illumination.phase),
+    events,
+  };
+}
@@ -0,0 +1,139 @@
+// Departure and arrival phases of a full-length flight
+export const CLIMB_MINUTES = 20;
+export const DESCENT_MINUTES = 30;
+// Ground speeds at the runway ends of the climb and descent
+const TAKEOFF_SPEED = 300; // km/h
+const LANDING_SPEED = 260; // km/h
+
+/**
+ * Speed schedule of a flight from takeoff to touchdown: speed ramps up from
+ * takeoff through the climb, holds during the cruise and ramps down through
+ * the descent, with the cruise speed chosen so the whole route is covered in
+ * the given time
+ */
+export interface FlightProfile {
+  duration: number; // hours from takeoff to touchdown
+  climbHours: number;
+  cruiseHours: number;
+  descentHours: number;
+  takeoffSpeed: number; // km/h
+  cruiseSpeed: number; // km/h
+  landingSpeed: number; // km/h
+  distance: number; // km covered by the speed schedule
+}
+
+/**
+ * Build the speed schedule for a flight
+ * @param distance Route distance in kilometers
+ * @param duration Airborne time in hours
+ */
+export function createFlightProfile(distance: number, duration: number): FlightProfile {
+  // Short hops never reach cruise: the phases shrink to fit
+  const phaseScale = Math.min(1, (duration * 60) / (CLIMB_MINUTES + DESCENT_MINUTES));
+  const climbHours = (CLIMB_MINUTES * phaseScale) / 60;
+  const descentHours = (DESCENT_MINUTES * phaseScale) / 60;
+  const cruiseHours = Math.max(0, duration - climbHours - descentHours);
+
+  // Distance = climb ramp + cruise + descent ramp, solved for the cruise speed
+  const rampWeight = climbHours / 2 + cruiseHours + descentHours / 2;
+  const cruiseSpeed = rampWeight > 0
+    ? (distance - (TAKEOFF_SPEED * climbHours) / 2 - (LANDING_SPEED * descentHours) / 2) / rampWeight
+    : 0;
+
+  // Too slow to make sense of the speed ramps: fall back to a constant speed,
+  // keeping the phases for the altitude ramps
+  if (cruiseSpeed < Math.max(TAKEOFF_SPEED, LANDING_SPEED)) {
+    const speed = duration > 0 ? distance / duration : 0;
+    return {
+      duration,
+      climbHours,
+      cruiseHours,
+      descentHours,
+      takeoffSpeed: speed,
+      cruiseSpeed: speed,
+      landingSpeed: speed,
+      distance,
+    };
+  }
+
+  return {
+    duration,
+    climbHours,
+    cruiseHours,
+    descentHours,
+    takeoffSpeed: TAKEOFF_SPEED,
+    cruiseSpeed,
+    landingSpeed: LANDING_SPEED,
+    distance,
+  };
+}
+
+/**
+ * Ground distance flown since takeoff
+ * @returns Distance in kilometers
+ */
+function distanceFlown(profile: FlightProfile, elapsedHours: number): number {
+  const { climbHours, cruiseHours, descentHours, takeoffSpeed, cruiseSpeed, landingSpeed } = profile;
+  const t = Math.max(0, Math.min(profile.duration, elapsedHours));
+
+  // Zero-length phases have no ramps to divide by
+  if (climbHours > 0 && t <= climbHours) {
+    return takeoffSpeed * t + ((cruiseSpeed - takeoffSpeed) * t * t) / (2 * climbHours);
+  }
+
+  const climbDistance = ((takeoffSpeed + cruiseSpeed) / 2) * climbHours;
+  if (descentHours <= 0 || t <= climbHours + cruiseHours) {
+    return climbDistance + cruiseSpeed * (t - climbHours);
+  }
+
+  const u = t - climbHours - cruiseHours;
+  return climbDistance + cruiseSpeed * cruiseHours +
+    cruiseSpeed * u - ((cruiseSpeed - landingSpeed) * u * u) / (2 * descentHours);
+}
+
+/**
+ * Fraction of the route covered after a given time in the air
+ * @returns 0 at takeoff, 1 at touchdown
+ */
+export function getProfileFraction(profile: FlightProfile, elapsedHours: number): number {
+  const total = distanceFlown(profile, profile.duration);
+  return total > 0 ? distanceFlown(profile, elapsedHours) / total : 0;
+}
+
+/**
+ * Aircraft height at a point in the flight: linear ramps through the climb
+ * and descent phases of the profile around the cruise level
+ * @param cruiseAltitude Cruise altitude in meters
+ * @returns Altitude in meters, 0 on the ground
+ */
+export function getProfileAltitude(
+  profile: FlightProfile,
+  elapsedHours: number,
+  cruiseAltitude: number
+): number {
+  const { duration, climbHours, descentHours } = profile;
+  if (elapsedHours <= 0 || elapsedHours >= duration) return 0;
+  if (elapsedHours < climbHours) return (cruiseAltitude * elapsedHours) / climbHours;
+  if (duration - elapsedHours < descentHours) return (cruiseAltitude * (duration - elapsedHours)) / descentHours;
+  return cruiseAltitude;
+}
+
+/**
+ * Time in the air at which a fraction of the route has been covered
+ * (inverse of getProfileFraction)
+ * @returns Elapsed hours since takeoff
+ */
+export function getProfileElapsedHours(profile: FlightProfile, fraction: number): number {
+  const target = Math.max(0, Math.min(1, fraction));
+  let low = 0;
+  let high = profile.duration;
+
+  // Distance flown only ever grows, so bisection converges
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (getProfileFraction(profile, mid) < target) low = mid;
+    else high = mid;
+  }
+
+  return (low + high) / 2;
+}
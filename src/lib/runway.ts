@@ -0,0 +1,146 @@
+import { Airport, RunwayEnd } from './cities';
+import { getPrevailingSurfaceWind } from './wind';
+
+// How the runway of a takeoff or landing was picked
+export type RunwaySource = 'prevailing' | 'chosen';
+
+export interface RunwayAssignment extends RunwayEnd {
+  source: RunwaySource;
+}
+
+// Runway ends a flight takes off from and lands on; without one the nose
+// follows the route from takeoff, or all the way to touchdown
+export interface FlightRunways {
+  departure?: RunwayEnd | null;
+  arrival?: RunwayEnd | null;
+}
+
+// Procedure model: straight out along the runway after takeoff, then a turn
+// onto the route; before landing the mirror image, a turn onto a straight final
+export const INITIAL_CLIMB_MINUTES = 1.5; // runway heading until the first turn
+export const FINAL_APPROACH_MINUTES = 4; // about 10 NM at approach speed
+const TURN_RATE = 120; // degrees per minute: 2°/s, about 25° of bank at 200 kt
+
+// Runways shorter than this share of the longest are left to light aircraft
+const MIN_RELATIVE_LENGTH = 0.6;
+
+/**
+ * Signed change from one heading to another, in (-180, 180]
+ */
+function headingDifference(from: number, to: number): number {
+  const difference = (((to - from) % 360) + 360) % 360;
+  return difference > 180 ? difference - 360 : difference;
+}
+
+// Designators compare without leading zeros, so '4L' finds '04L'
+const designatorKey = (ident: string) => ident.trim().toUpperCase().replace(/^0+(?=\d)/, '');
+
+/**
+ * Find a runway end of an airport by designator (e.g. '22R'), case-insensitive
+ */
+export function findRunwayEnd(airport: Airport, ident: string): RunwayEnd | undefined {
+  const key = designatorKey(ident);
+  for (const runway of airport.runways) {
+    const end = runway.ends.find((candidate) => designatorKey(candidate.ident) === key);
+    if (end) return end;
+  }
+  return undefined;
+}
+
+/**
+ * Runway end most nearly into the wind, since aircraft take off and land into
+ * it. Short secondary runways are skipped, and among parallel runways the
+ * longest wins.
+ * @param windFrom Degrees the wind blows from (default: the prevailing surface wind)
+ * @returns The runway end, or undefined when the airport has no runway data
+ */
+export function selectRunwayEnd(
+  airport: Airport,
+  windFrom: number = getPrevailingSurfaceWind(airport.lat)
+): RunwayEnd | undefined {
+  const longest = Math.max(0, ...airport.runways.map((runway) => runway.length));
+  let best: { end: RunwayEnd; headwind: number } | undefined;
+
+  // Runways come longest first, so ties keep the longer one
+  for (const runway of airport.runways) {
+    if (runway.length < longest * MIN_RELATIVE_LENGTH) continue;
+    for (const end of runway.ends) {
+      const headwind = Math.cos((headingDifference(end.heading, windFrom) * Math.PI) / 180);
+      if (!best || headwind > best.headwind + 1e-9) best = { end, headwind };
+    }
+  }
+  return best?.end;
+}
+
+/**
+ * Runway end for a takeoff or landing at an airport: the one asked for, or
+ * the one most nearly into the prevailing surface wind
+ * @param choice Designator to use, undefined to pick by the wind, null for none
+ * @returns The runway end and how it was picked, or null without runway data
+ * or when none was wanted
+ */
+export function assignRunway(airport: Airport, choice?: string | null): RunwayAssignment | null {
+  if (choice === null) return null;
+
+  const chosen = choice ? findRunwayEnd(airport, choice) : undefined;
+  if (chosen) return { ...chosen, source: 'chosen' };
+
+  const selected = selectRunwayEnd(airport);
+  return selected ? { ...selected, source: 'prevailing' } : null;
+}
+
+/**
+ * Heading after turning for some minutes from one heading towards another by
+ * the shorter way, or null once the turn is complete
+ */
+function turnTowards(from: number, to: number, minutes: number): number | null {
+  const difference = headingDifference(from, to);
+  const turned = minutes * TURN_RATE;
+  if (turned >= Math.abs(difference)) return null;
+  return (from + Math.sign(difference) * turned + 360) % 360;
+}
+
+/**
+ * Heading in a departure or arrival procedure
+ * @param minutes Time since the end of the straight segment on the runway
+ * heading, counted backwards from touchdown for arrivals; negative while on it
+ * @returns The heading, or null outside the procedure
+ */
+function getProcedureHeading(runway: RunwayEnd | null | undefined, routeHeading: number, minutes: number): number | null {
+  if (!runway) return null;
+  if (minutes < 0) return runway.heading;
+  return turnTowards(runway.heading, routeHeading, minutes);
+}
+
+/**
+ * Wrap a trajectory so takeoff and landing follow the runways: along the
+ * departure runway for INITIAL_CLIMB_MINUTES after takeoff, then turning onto
+ * the route; before landing, turning off the route onto the arrival runway for
+ * the last FINAL_APPROACH_MINUTES. Turns take the shorter way at TURN_RATE.
+ * Positions stay on the route; only the direction of travel and the nose change.
+ * @param takeoffTime Instant the trajectory starts at
+ * @param flightDuration Airborne hours
+ */
+export function applyRunwayProcedures<Position extends { bearing: number; heading: number }>(
+  trajectory: (time: Date) => Position,
+  takeoffTime: Date,
+  flightDuration: number,
+  runways: FlightRunways
+): (time: Date) => Position {
+  const { departure, arrival } = runways;
+  if (!departure && !arrival) return trajectory;
+
+  const startMs = takeoffTime.getTime();
+  const totalMinutes = flightDuration * 60;
+
+  return (time: Date) => {
+    const position = trajectory(time);
+    const elapsed = (time.getTime() - startMs) / (60 * 1000);
+    const remaining = totalMinutes - elapsed;
+    // On short hops the two procedures meet; the nearer end of the flight wins
+    const heading = elapsed <= remaining
+      ? getProcedureHeading(departure, position.heading, elapsed - INITIAL_CLIMB_MINUTES)
+      : getProcedureHeading(arrival, position.heading, remaining - FINAL_APPROACH_MINUTES);
+    return heading === null ? position : { ...position, bearing: heading, heading };
+  };
+}
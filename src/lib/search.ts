@@ -0,0 +1,290 @@
+import { AIRPORTS, Airport, AirportType } from './cities';
+
+// Airport fields a query can match
+export type AirportSearchField = 'code' | 'icao' | 'city' | 'name' | 'country' | 'alias';
+
+// Where one query word matched, as a character range of the original field text
+export interface AirportSearchMatch {
+  field: AirportSearchField;
+  text: string; // the field text, or the alias that matched
+  start: number;
+  end: number; // exclusive
+}
+
+export interface AirportSearchResult {
+  airport: Airport;
+  score: number;
+  matches: AirportSearchMatch[];
+}
+
+// Metro-area codes and former or colloquial city names, by the airports they stand for
+const SEARCH_ALIASES: Record<string, string[]> = {
+  NYC: ['JFK', 'LGA', 'EWR'],
+  'New York': ['EWR'],
+  LON: ['LHR', 'LGW', 'STN', 'LTN', 'LCY', 'SEN'],
+  PAR: ['CDG', 'ORY', 'BVA'],
+  TYO: ['HND', 'NRT'],
+  Tokyo: ['NRT'],
+  CHI: ['ORD', 'MDW'],
+  WAS: ['IAD', 'DCA', 'BWI'],
+  Washington: ['IAD', 'BWI'],
+  MIL: ['MXP', 'LIN', 'BGY'],
+  ROM: ['FCO', 'CIA'],
+  STO: ['ARN', 'BMA'],
+  OSA: ['KIX', 'ITM'],
+  SEL: ['ICN', 'GMP'],
+  BJS: ['PEK', 'PKX'],
+  MOW: ['SVO', 'DME', 'VKO'],
+  SAO: ['GRU', 'CGH', 'VCP'],
+  'Sao Paulo': ['VCP'],
+  RIO: ['GIG', 'SDU'],
+  BUE: ['EZE', 'AEP'],
+  YTO: ['YYZ', 'YTZ'],
+  YMQ: ['YUL'],
+  'Bay Area': ['SFO', 'OAK', 'SJC'],
+  Bombay: ['BOM'],
+  Calcutta: ['CCU'],
+  Madras: ['MAA'],
+  Peking: ['PEK'],
+  Saigon: ['SGN'],
+};
+
+// Relative value of a word match in each field
+const FIELD_WEIGHTS: Record<Exclude<AirportSearchField, 'code' | 'icao'>, number> = {
+  city: 1,
+  alias: 0.9,
+  name: 0.8,
+  country: 0.5,
+};
+
+// Bonus so that, other things equal, a city's main airport comes first
+const TYPE_BONUS: Record<AirportType, number> = { large: 15, medium: 8, small: 0 };
+
+// Letters without a decomposed form that NFD leaves alone
+const FOLDED_LETTERS: Record<string, string> = { ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ı: 'i', þ: 'th' };
+
+interface FoldedText {
+  text: string;
+  folded: string; // lowercase, accents removed, punctuation turned into spaces
+  offsets: number[]; // index in `text` of each folded character, plus text.length
+  words: { start: number; word: string }[];
+}
+
+interface IndexedField extends FoldedText {
+  field: Exclude<AirportSearchField, 'code' | 'icao'>;
+}
+
+interface IndexedAirport {
+  airport: Airport;
+  fields: IndexedField[];
+  aliasCodes: string[]; // metro codes this airport belongs to
+}
+
+/**
+ * Lowercase and strip accents, keeping a map back to the original characters
+ * so matches can be highlighted in the text as written
+ */
+function foldText(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    let replacement: string;
+    if (char === "'" || char === '’') {
+      replacement = ''; // O'Hare -> ohare
+    } else {
+      const lower = char.toLowerCase();
+      replacement = FOLDED_LETTERS[lower] ?? lower.normalize('NFD').replace(/\p{M}/gu, '');
+      if (!/^[\p{L}\p{N}]*$/u.test(replacement)) replacement = ' ';
+    }
+    for (const foldedChar of replacement) {
+      folded += foldedChar;
+      offsets.push(i);
+    }
+  }
+  offsets.push(text.length);
+
+  const words = [...folded.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({ start: match.index!, word: match[0] }));
+  return { text, folded, offsets, words };
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up early once it exceeds maxDistance
+ * @returns The distance, or Infinity when above maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return Infinity;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoRowsBack[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return Infinity;
+  }
+  return row[b.length] <= maxDistance ? row[b.length] : Infinity;
+}
+
+/**
+ * Typos tolerated in a query word: none for short words, which are usually
+ * codes or prefixes, one from four letters and two from eight
+ */
+function allowedTypos(length: number): number {
+  return length >= 8 ? 2 : length >= 4 ? 1 : 0;
+}
+
+/**
+ * Score one query word against one word of a field
+ * @returns Score and matched length in the field word, or null when it does not match
+ */
+function scoreWord(token: string, word: string): { score: number; length: number } | null {
+  if (word === token) return { score: 60, length: word.length };
+  if (word.startsWith(token)) return { score: 45, length: token.length };
+
+  const typos = allowedTypos(token.length);
+  if (typos > 0) {
+    const distance = editDistance(token, word, typos);
+    if (distance !== Infinity) return { score: 35 - 10 * distance, length: word.length };
+    // A typo in a word still being typed
+    if (word.length > token.length) {
+      const prefixDistance = editDistance(token, word.slice(0, token.length), typos);
+      if (prefixDistance !== Infinity) return { score: 25 - 10 * prefixDistance, length: token.length };
+    }
+  }
+  return null;
+}
+
+let searchIndex: IndexedAirport[] | null = null;
+
+/**
+ * Fold every searchable field once, on first search
+ */
+function getSearchIndex(): IndexedAirport[] {
+  if (searchIndex) return searchIndex;
+
+  const aliasesByCode = new Map<string, string[]>();
+  for (const [alias, codes] of Object.entries(SEARCH_ALIASES)) {
+    for (const code of codes) aliasesByCode.set(code, [...(aliasesByCode.get(code) ?? []), alias]);
+  }
+
+  searchIndex = AIRPORTS.map((airport) => {
+    const aliases = aliasesByCode.get(airport.code) ?? [];
+    return {
+      airport,
+      fields: [
+        { field: 'city' as const, ...foldText(airport.city) },
+        { field: 'name' as const, ...foldText(airport.name) },
+        { field: 'country' as const, ...foldText(airport.country) },
+        ...aliases.map((alias) => ({ field: 'alias' as const, ...foldText(alias) })),
+      ],
+      aliasCodes: aliases.filter((alias) => /^[A-Z]{3}$/.test(alias)),
+    };
+  });
+  return searchIndex;
+}
+
+// Word scores already computed for each query word; words like "airport" repeat a lot
+type WordScoreCache = Map<string, ReturnType<typeof scoreWord>>[];
+
+/**
+ * Score an airport against the query
+ * @returns The result, or null unless every query word matches somewhere
+ */
+function scoreAirport(entry: IndexedAirport, query: FoldedText, cache: WordScoreCache): AirportSearchResult | null {
+  const { airport } = entry;
+  const compact = query.folded.replace(/\s+/g, '').toUpperCase();
+  const matches: AirportSearchMatch[] = [];
+  let score = TYPE_BONUS[airport.type];
+
+  // A whole query that is a code wins outright
+  if (compact === airport.code) {
+    return { airport, score: score + 1000, matches: [{ field: 'code', text: airport.code, start: 0, end: 3 }] };
+  }
+  if (compact === airport.icao) {
+    return { airport, score: score + 900, matches: [{ field: 'icao', text: airport.icao, start: 0, end: 4 }] };
+  }
+  if (entry.aliasCodes.includes(compact)) {
+    return { airport, score: score + 800, matches: [{ field: 'alias', text: compact, start: 0, end: 3 }] };
+  }
+
+  for (const [tokenIndex, { word: token }] of query.words.entries()) {
+    const tokenCache = cache[tokenIndex];
+    let best: { score: number; match: AirportSearchMatch } | null = null;
+
+    // Codes only match from their first letter
+    const upper = token.toUpperCase();
+    if (token.length >= 2 && airport.code.startsWith(upper)) {
+      best = { score: 50, match: { field: 'code', text: airport.code, start: 0, end: upper.length } };
+    } else if (token.length >= 2 && airport.icao?.startsWith(upper)) {
+      best = { score: 40, match: { field: 'icao', text: airport.icao, start: 0, end: upper.length } };
+    }
+
+    for (const field of entry.fields) {
+      for (const { start, word } of field.words) {
+        let wordMatch = tokenCache.get(word);
+        if (wordMatch === undefined) {
+          wordMatch = scoreWord(token, word);
+          tokenCache.set(word, wordMatch);
+        }
+        if (!wordMatch) continue;
+        const weighted = wordMatch.score * FIELD_WEIGHTS[field.field] + (start === 0 ? 5 : 0);
+        if (!best || weighted > best.score) {
+          best = {
+            score: weighted,
+            match: {
+              field: field.field,
+              text: field.text,
+              start: field.offsets[start],
+              end: field.offsets[start + wordMatch.length],
+            },
+          };
+        }
+      }
+    }
+
+    if (!best) return null;
+    score += best.score;
+    matches.push(best.match);
+  }
+
+  // Reward a query that is the whole city name, e.g. "sao paulo"
+  const city = entry.fields[0];
+  if (city.words.map((w) => w.word).join(' ') === query.words.map((w) => w.word).join(' ')) score += 40;
+
+  return { airport, score, matches };
+}
+
+/**
+ * Search airports by code, city, name, country or alias, tolerating accents
+ * and typos. Exact IATA, ICAO and metro codes rank first, then whole words,
+ * prefixes and near misses, with larger airports ahead on ties.
+ * @param limit Most results to return (default: 50)
+ * @returns Results by descending score, with the matched ranges for highlighting
+ */
+export function searchAirports(query: string, limit: number = 50): AirportSearchResult[] {
+  const folded = foldText(query);
+  if (folded.words.length === 0) return [];
+
+  const cache: WordScoreCache = folded.words.map(() => new Map());
+  const results: AirportSearchResult[] = [];
+  for (const entry of getSearchIndex()) {
+    const result = scoreAirport(entry, folded, cache);
+    if (result) results.push(result);
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.airport.city.localeCompare(b.airport.city))
+    .slice(0, limit);
+}
@@ -1,103 +1,349 @@
 // sunUtils.ts
 import * as SunCalc from 'suncalc';
-import { calculateBearing, generateGreatCirclePath } from './geo';
+import { createGeodesicLine, geodesicInverse, EarthModel } from './geo';
+import { createFlightProfile, getProfileAltitude, getProfileFraction, FlightProfile } from './profile';
+import { getZonedDateParts, zonedTimeToUtc } from './time';
+import { getTrackPointAtDistance, getTrackPointAtTime, FlightTrack } from './track';
+import { getCruiseSpeed } from './duration';
+import { calculateWindCorrection, getWindVector, WindField } from './wind';
+import { applyRunwayProcedures, FlightRunways } from './runway';
 
 export interface SunPosition {
   azimuth: number; // degrees from north, clockwise
-  altitude: number; // degrees above horizon
+  altitude: number; // degrees above the observer's visible horizon
+}
+
+export interface FlightSunOptions {
+  cruiseAltitude?: number; // meters (default: DEFAULT_CRUISE_ALTITUDE)
+  stepMinutes?: number; // base sampling step for scores and the event solver (default: 5)
+  departureTimeZone?: string; // IANA zones of the airports, for local-day sunrise/sunset
+  arrivalTimeZone?: string;
+  windowFov?: WindowFieldOfView; // passenger window viewing cone (default: DEFAULT_WINDOW_FOV)
+  earthModel?: EarthModel; // shape of the Earth for the route (default: 'wgs84')
+  track?: FlightTrack; // flown track to follow instead of the shortest path
+  wind?: WindField; // crab into this wind; without it the nose points along the course
+  runways?: FlightRunways; // runways the takeoff and landing headings follow; ignored for tracks
+}
+
+// Viewing cone of a passenger window: centred abeam, tilted slightly down
+export interface WindowFieldOfView {
+  horizontalHalfAngle: number; // degrees either side of abeam
+  verticalHalfAngle: number; // degrees either side of the cone axis
+  axisElevation: number; // cone axis above the horizontal, negative looks down
+}
+
+export const DEFAULT_WINDOW_FOV: WindowFieldOfView = {
+  horizontalHalfAngle: 50,
+  verticalHalfAngle: 30,
+  axisElevation: -10,
+};
+
+// Lower sun-altitude bound (degrees) of each light phase, brightest first
+const LIGHT_PHASE_BOUNDS: { phase: LightPhase; minAltitude: number }[] = [
+  { phase: 'daylight', minAltitude: 6 },
+  { phase: 'goldenHour', minAltitude: 0 },
+  { phase: 'civilTwilight', minAltitude: -4 },
+  { phase: 'blueHour', minAltitude: -6 },
+  { phase: 'nauticalTwilight', minAltitude: -12 },
+  { phase: 'astronomicalTwilight', minAltitude: -18 },
+];
+
+// Scenic scoring: low sun is the best view, twilight glow still counts a little
+const LOW_SUN_ALTITUDE = 10; // degrees
+const TWILIGHT_GLOW_QUALITY = 0.4;
+const SCORE_SATURATION_MINUTES = 45; // quality-minutes that give a score of ~63
+const MIN_SIDE_SCORE = 5; // below this a side is not worth recommending
+const MINOR_SIDE_RATIO = 0.25; // a side scoring under 25% of the other is ignored
+
+// Adaptive sampling: slices are halved while the sun is between civil twilight
+// and a low sun, or while the aircraft turns, down to 1/8 of the base step
+const ADAPTIVE_MAX_DEPTH = 3;
+const REFINE_MIN_SUN_ALTITUDE = -6; // degrees
+const REFINE_TURN_DEGREES = 5;
+
+export const DEFAULT_CRUISE_ALTITUDE = 11000; // meters
+const EARTH_RADIUS_M = 6371000;
+const TERRESTRIAL_REFRACTION = 0.13; // coefficient of terrestrial refraction
+
+export type SunEventType =
+  | 'sunrise'
+  | 'sunset'
+  | 'civilDawn'
+  | 'civilDusk'
+  | 'nauticalDawn'
+  | 'nauticalDusk'
+  | 'astronomicalDawn'
+  | 'astronomicalDusk';
+
+export interface SunEvent {
+  type: SunEventType;
+  time: Date;
+  lat: number; // aircraft position when the crossing happens
+  lng: number;
+  azimuth: number; // sun azimuth at the crossing
+  side: 'left' | 'right'; // window side the sun is on
+}
+
+// What the passenger wants from the window: sun views or to avoid the sun
+export type SeatObjective = 'scenic' | 'shade';
+
+export interface SideExposure {
+  left: number; // weighted minutes of direct sun through left-side windows
+  right: number;
+}
+
+export interface SideScore {
+  visibleMinutes: number; // sun above the visible horizon and inside this side's window view
+  horizonMinutes: number; // sun within LOW_SUN_ALTITUDE of the horizon on this side
+  peakTime: Date | null; // most scenic moment, null when the sun never shows
+  peakQuality: number; // quality at the peak, 0..1
+  score: number; // normalized 0..100
+}
+
+export interface ScenicScore {
+  left: SideScore;
+  right: SideScore;
+}
+
+// Whether the sun rises and sets normally, or stays up / down all day
+export type DaylightStatus = 'normal' | 'midnightSun' | 'polarNight';
+
+export type LightPhase =
+  | 'daylight'
+  | 'goldenHour'
+  | 'civilTwilight'
+  | 'blueHour'
+  | 'nauticalTwilight'
+  | 'astronomicalTwilight'
+  | 'night';
+
+export interface LightSegment {
+  phase: LightPhase;
+  start: Date;
+  end: Date;
+  side: 'left' | 'right' | 'both' | 'none'; // where the sun is during the segment
+}
+
+// Aircraft and sun at the middle of one time slice of the flight
+export interface SunSample {
+  time: Date;
+  minutes: number; // length of the slice
+  position: FlightPosition;
+  sun: SunPosition;
 }
 
 export interface FlightSunData {
   departureSun: SunPosition;
   arrivalSun: SunPosition;
-  scenicSide: 'left' | 'right' | 'both' | 'none';
-  sunriseTime: Date;
-  sunsetTime: Date;
+  scenicSide: 'left' | 'right' | 'both' | 'none'; // derived from scenicScore
+  scenicScore: ScenicScore;
+  daylightStatus: DaylightStatus;
+  sunriseTime: Date | null; // null when the sun does not rise on the route
+  sunsetTime: Date | null; // null when the sun does not set on the route
   flightDuration: number; // hours
+  events: SunEvent[]; // sunrise/sunset/twilight crossings seen from the aircraft
+  lightSegments: LightSegment[]; // photographic light phases, in flight order
+  exposure: SideExposure; // direct-sun exposure per side
+  shadeSide: 'left' | 'right' | 'both'; // side with the least direct sun
+}
+
+// Sun altitude thresholds (degrees) for each horizon/twilight boundary
+const SUN_EVENT_THRESHOLDS: { altitude: number; rising: SunEventType; setting: SunEventType }[] = [
+  { altitude: -0.833, rising: 'sunrise', setting: 'sunset' },
+  { altitude: -6, rising: 'civilDawn', setting: 'civilDusk' },
+  { altitude: -12, rising: 'nauticalDawn', setting: 'nauticalDusk' },
+  { altitude: -18, rising: 'astronomicalDawn', setting: 'astronomicalDusk' },
+];
+
+export interface SunriseSunset {
+  sunrise: Date | null;
+  sunset: Date | null;
+  status: DaylightStatus;
+}
+
+export interface HorizonEvent {
+  type: 'sunrise' | 'sunset';
+  time: Date;
 }
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const JULIAN_UNIX_EPOCH = 2440587.5;
+const J2000 = 2451545;
+const EARTH_OBLIQUITY = 23.4397; // degrees
+
 /**
- * Calculate sunrise and sunset times using astronomical formulas
- * @param lat Latitude in degrees
- * @param lon Longitude in degrees
- * @param date Date to calculate for
- * @returns Object with sunrise and sunset Date objects (UTC)
+ * Local calendar date of an instant: the airport's IANA timezone when known,
+ * otherwise mean solar time at the longitude
  */
-export function calculateSunriseSunset(
-  lat: number,
+function getLocalCalendarDate(
+  instant: Date,
   lon: number,
-  date: Date
-): { sunrise: Date | null; sunset: Date | null } {
-  const zenith = 90.833; // official zenith for sunrise/sunset
-
-  function dayOfYear(d: Date): number {
-    const start = new Date(d.getFullYear(), 0, 0);
-    const diff = d.getTime() - start.getTime();
-    return Math.floor(diff / (1000 * 60 * 60 * 24));
+  timeZone?: string
+): { year: number; month: number; day: number } {
+  if (timeZone) {
+    const { year, month, day } = getZonedDateParts(instant, timeZone);
+    return { year, month, day };
   }
+  const solar = new Date(instant.getTime() + (lon / 15) * 60 * 60 * 1000);
+  return { year: solar.getUTCFullYear(), month: solar.getUTCMonth() + 1, day: solar.getUTCDate() };
+}
 
-  const N = dayOfYear(date);
-  const latRad = (lat * Math.PI) / 180;
-
-  const tRise = N + (6 - lon / 15) / 24;
-  const tSet = N + (18 - lon / 15) / 24;
+/**
+ * Sunrise and sunset for one calendar day, computed entirely in UTC with the
+ * sunrise equation around the solar transit nearest the day's local noon
+ * @param timeZone IANA zone the calendar day is in; mean solar time at the longitude without one
+ */
+function sunriseSunsetForLocalDay(
+  lat: number,
+  lon: number,
+  year: number,
+  month: number,
+  day: number,
+  timeZone?: string
+): SunriseSunset {
+  const toRad = Math.PI / 180;
 
-  function sunTime(t: number, isRise: boolean): Date | null {
-    const M = 0.9856 * t - 3.289;
+  // Local noon of the day; zones far ahead of solar time (UTC+13, +14) put it
+  // on a different UTC date than the transit that belongs to it
+  const localNoonJd = timeZone
+    ? zonedTimeToUtc(year, month, day, 12, 0, timeZone).getTime() / MS_PER_DAY + JULIAN_UNIX_EPOCH
+    : Date.UTC(year, month - 1, day, 12) / MS_PER_DAY + JULIAN_UNIX_EPOCH - lon / 360;
 
-    let L = M +
-      1.916 * Math.sin((M * Math.PI) / 180) +
-      0.02 * Math.sin((2 * M * Math.PI) / 180) +
-      282.634;
-    L = L % 360;
-    if (L < 0) L += 360;
+  // Mean solar noon at this longitude falls at JD n - lon/360 for whole n; take the nearest
+  const meanNoonJd = Math.round(localNoonJd + lon / 360) - lon / 360;
 
-    let RA = (Math.atan(0.91764 * Math.tan((L * Math.PI) / 180)) * 180) / Math.PI;
-    RA = RA % 360;
-    if (RA < 0) RA += 360;
+  // Solar transit and declination with the orbit evaluated at a Julian date
+  const solarAt = (jd: number) => {
+    const jStar = jd - J2000;
+    const M = (((357.5291 + 0.98560028 * jStar) % 360) + 360) % 360;
+    const C = 1.9148 * Math.sin(M * toRad) + 0.02 * Math.sin(2 * M * toRad) + 0.0003 * Math.sin(3 * M * toRad);
+    // Longitude of perihelion drifts 1.72° a century against the equinox
+    const lambda = (M + C + 180 + 102.9372 + 0.0000471 * jStar) % 360;
+    return {
+      transit: meanNoonJd + 0.0053 * Math.sin(M * toRad) - 0.0069 * Math.sin(2 * lambda * toRad),
+      sinDec: Math.sin(lambda * toRad) * Math.sin(EARTH_OBLIQUITY * toRad),
+    };
+  };
 
-    const Lquadrant = Math.floor(L / 90) * 90;
-    const RAquadrant = Math.floor(RA / 90) * 90;
-    RA = RA + (Lquadrant - RAquadrant);
-    RA = RA / 15; // hours
+  // Cosine of the hour angle at which the sun's upper limb touches the horizon
+  const cosHourAngle = (sinDec: number) =>
+    (Math.sin(SUN_EVENT_THRESHOLDS[0].altitude * toRad) - Math.sin(lat * toRad) * sinDec) /
+    (Math.cos(lat * toRad) * Math.cos(Math.asin(sinDec)));
 
-    const sinDec = 0.39782 * Math.sin((L * Math.PI) / 180);
-    const cosDec = Math.cos(Math.asin(sinDec));
+  const noon = solarAt(meanNoonJd);
+  const cosH = cosHourAngle(noon.sinDec);
+  if (cosH > 1) return { sunrise: null, sunset: null, status: 'polarNight' }; // sun never rises
+  if (cosH < -1) return { sunrise: null, sunset: null, status: 'midnightSun' }; // sun never sets
 
-    const cosH =
-      (Math.cos((zenith * Math.PI) / 180) - sinDec * Math.sin(latRad)) /
-      (cosDec * Math.cos(latRad));
+  // Refine each event with the declination at the event itself
+  const eventJd = (direction: -1 | 1) => {
+    let jd = noon.transit + (direction * Math.acos(cosH)) / (2 * Math.PI);
+    for (let i = 0; i < 2; i++) {
+      const solar = solarAt(jd);
+      const cos = Math.max(-1, Math.min(1, cosHourAngle(solar.sinDec)));
+      jd = solar.transit + (direction * Math.acos(cos)) / (2 * Math.PI);
+    }
+    return jd;
+  };
+  const fromJulian = (jd: number) => new Date(Math.round((jd - JULIAN_UNIX_EPOCH) * MS_PER_DAY));
 
-    if (cosH > 1) return null; // sun never rises
-    if (cosH < -1) return null; // sun never sets
+  return {
+    sunrise: fromJulian(eventJd(-1)),
+    sunset: fromJulian(eventJd(1)),
+    status: 'normal',
+  };
+}
 
-    let H = (Math.acos(cosH) * 180) / Math.PI;
-    if (isRise) H = 360 - H;
-    H = H / 15;
+/**
+ * Calculate sunrise and sunset times using astronomical formulas
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param date Instant whose local calendar day is wanted
+ * @param timeZone IANA timezone of the location (e.g. an airport's `timezone`);
+ * falls back to mean solar time at the longitude
+ * @returns Sunrise and sunset Date objects (UTC), null with a polar status
+ * when the sun stays above or below the horizon all day
+ */
+export function calculateSunriseSunset(
+  lat: number,
+  lon: number,
+  date: Date,
+  timeZone?: string
+): SunriseSunset {
+  const { year, month, day } = getLocalCalendarDate(date, lon, timeZone);
+  return sunriseSunsetForLocalDay(lat, lon, year, month, day, timeZone);
+}
 
-    const T = H + RA - 0.06571 * t - 6.622;
+/**
+ * Find the sunrise/sunset events immediately before and after an instant
+ * @param searchDays Days to look back and ahead (default: 2)
+ * @returns The last horizon event before the instant and the first after it;
+ * null where none happens within the search window (polar day/night)
+ */
+export function findBracketingSunEvents(
+  lat: number,
+  lon: number,
+  instant: Date,
+  timeZone?: string,
+  searchDays: number = 2
+): { previous: HorizonEvent | null; next: HorizonEvent | null } {
+  const { year, month, day } = getLocalCalendarDate(instant, lon, timeZone);
+  const events: HorizonEvent[] = [];
 
-    let UT = T - lon / 15;
-    UT = (UT + 24) % 24;
-    if (UT < 0) UT += 24;
+  for (let offset = -searchDays; offset <= searchDays; offset++) {
+    const d = new Date(Date.UTC(year, month - 1, day + offset));
+    const times = sunriseSunsetForLocalDay(lat, lon, d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), timeZone);
+    if (times.sunrise) events.push({ type: 'sunrise', time: times.sunrise });
+    if (times.sunset) events.push({ type: 'sunset', time: times.sunset });
+  }
 
-    const hour = Math.floor(UT);
-    const min = Math.floor((UT - hour) * 60);
-    const sec = Math.floor(((UT - hour) * 60 - min) * 60);
+  events.sort((a, b) => a.time.getTime() - b.time.getTime());
+  const t = instant.getTime();
 
-    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), hour, min, sec));
-  }
+  return {
+    previous: [...events].reverse().find((e) => e.time.getTime() <= t) ?? null,
+    next: events.find((e) => e.time.getTime() > t) ?? null,
+  };
+}
 
-  const sunrise = sunTime(tRise, true);
-  const sunset = sunTime(tSet, false);
+/**
+ * Depression of the visible horizon for an elevated observer
+ * @param observerAltitude Height above the surface in meters
+ * @returns Dip in degrees, including terrestrial refraction (~3.1° at 11 km)
+ */
+export function calculateHorizonDip(observerAltitude: number): number {
+  if (observerAltitude <= 0) return 0;
+  const effectiveRadius = EARTH_RADIUS_M / (1 - TERRESTRIAL_REFRACTION);
+  return (Math.acos(effectiveRadius / (effectiveRadius + observerAltitude)) * 180) / Math.PI;
+}
 
-  return { sunrise, sunset };
+/**
+ * Aircraft altitude at a point in the flight, ramping through the climb and
+ * descent phases of the same profile that places the aircraft on the route
+ * @param profile Flight profile (see createFlightProfile)
+ * @param elapsedHours Time since takeoff in hours
+ * @param cruiseAltitude Cruise altitude in meters
+ * @returns Altitude in meters
+ */
+export function getAircraftAltitude(
+  profile: FlightProfile,
+  elapsedHours: number,
+  cruiseAltitude: number = DEFAULT_CRUISE_ALTITUDE
+): number {
+  return getProfileAltitude(profile, elapsedHours, cruiseAltitude);
 }
 
 /**
  * Get sun position at a specific location and time
+ * @param observerAltitude Observer height in meters; the altitude returned is
+ * measured from the visible horizon, so it is higher than on the ground
  */
-export function getSunPosition(date: Date, lat: number, lng: number): SunPosition {
+export function getSunPosition(
+  date: Date,
+  lat: number,
+  lng: number,
+  observerAltitude: number = 0
+): SunPosition {
   const pos = SunCalc.getPosition(date, lat, lng);
 
   let azimuth = ((pos.azimuth * 180) / Math.PI + 180) % 360;
@@ -105,12 +351,13 @@ export function getSunPosition(date: Date, lat: number, lng: number): SunPositio
 
   return {
     azimuth,
-    altitude: (pos.altitude * 180) / Math.PI,
+    altitude: (pos.altitude * 180) / Math.PI + calculateHorizonDip(observerAltitude),
   };
 }
 
 /**
- * Relative angle between sun azimuth and flight bearing
+ * Relative angle between sun azimuth and flight bearing (the aircraft heading,
+ * since the windows turn with the nose rather than the ground track)
  *   - Positive: sun is to the right
  *   - Negative: sun is to the left
  */
@@ -130,20 +377,37 @@ export function calculateSunRelativeAngle(
 }
 
 /**
- * Determine scenic side based on a trajectory of relative angles
+ * Which window, if any, a direction falls inside the viewing cone of
+ * @param relativeAngle Direction relative to the flight bearing (positive = right)
+ * @param elevation Degrees above the aircraft's horizontal plane
+ * @returns The side whose window sees the direction, or null when it is out
+ * of view (ahead, behind, too high or too low)
  */
-export function determineScenicSideFromTrajectory(
-  relativeAngles: number[]
-): 'left' | 'right' | 'both' | 'none' {
-  const threshold = 5;
+export function getWindowViewSide(
+  relativeAngle: number,
+  elevation: number,
+  fov: WindowFieldOfView = DEFAULT_WINDOW_FOV
+): 'left' | 'right' | null {
+  // Elliptical cone around the abeam direction of each side
+  const horizontal = (Math.abs(relativeAngle) - 90) / fov.horizontalHalfAngle;
+  const vertical = (elevation - fov.axisElevation) / fov.verticalHalfAngle;
+  if (horizontal * horizontal + vertical * vertical > 1) return null;
+  return relativeAngle > 0 ? 'right' : 'left';
+}
 
-  const hasLeft = relativeAngles.some((a) => a < -threshold);
-  const hasRight = relativeAngles.some((a) => a > threshold);
+/**
+ * Combine the windows that see a body over a run of samples
+ * @param sides Window side at each sample, null when out of view
+ * @returns Both sides when each sees it at some point, 'none' when neither does
+ */
+export function combineViewSides(sides: ('left' | 'right' | null)[]): 'left' | 'right' | 'both' | 'none' {
+  const hasLeft = sides.includes('left');
+  const hasRight = sides.includes('right');
 
   if (hasLeft && hasRight) return 'both';
   if (hasRight) return 'right';
   if (hasLeft) return 'left';
-  return 'both';
+  return 'none';
 }
 
 /**
@@ -154,7 +418,7 @@ export function isSunVisibleDuringFlight(sunData: FlightSunData): boolean {
 }
 
 /**
- * Recommended window seats based on scenic side
+ * Recommended window seats for a side (scenic side or shaded side)
  */
 export function getRecommendedSeats(
   scenicSide: 'left' | 'right' | 'both' | 'none'
@@ -174,145 +438,685 @@ export function getRecommendedSeats(
   }
 }
 
+/**
+ * Direct-sun exposure of each side of the cabin over the flight. Each sample
+ * with the sun above the visible horizon adds its time step, weighted by how
+ * squarely the sun faces the windows (sine of the relative angle) and how low
+ * it is (cosine of its altitude, since a high sun shines on the roof).
+ * @param samples Samples of the flight (default: sampleFlightSun)
+ * @returns Weighted minutes of sun per side
+ */
+export function calculateSideExposure(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {},
+  samples: SunSample[] = sampleFlightSun(
+    departureLat, departureLng, arrivalLat, arrivalLng, departureTime, flightDuration, options
+  )
+): SideExposure {
+  const exposure: SideExposure = { left: 0, right: 0 };
+  if (flightDuration <= 0) return exposure;
+
+
+  for (const { minutes, position, sun } of samples) {
+    if (sun.altitude <= SUN_EVENT_THRESHOLDS[0].altitude) continue;
+
+    const relativeAngle = calculateSunRelativeAngle(position.heading, sun.azimuth);
+    const weight =
+      Math.abs(Math.sin((relativeAngle * Math.PI) / 180)) *
+      Math.cos((Math.max(0, sun.altitude) * Math.PI) / 180);
+
+    if (relativeAngle > 0) exposure.right += minutes * weight;
+    else exposure.left += minutes * weight;
+  }
+
+  return exposure;
+}
+
+/**
+ * Side with the least direct sun; 'both' when the difference is negligible
+ * @param toleranceMinutes Weighted minutes below which sides count as equal (default: 5)
+ */
+export function getShadeSide(
+  exposure: SideExposure,
+  toleranceMinutes: number = 5
+): 'left' | 'right' | 'both' {
+  if (Math.abs(exposure.left - exposure.right) < toleranceMinutes) return 'both';
+  return exposure.left < exposure.right ? 'left' : 'right';
+}
+
+/**
+ * Scenic quality (0..1) of a sun position for the side it is on: best when
+ * the sun is low and abeam, weaker when high, some credit for twilight glow
+ */
+function scenicQuality(altitude: number, relativeAngle: number): number {
+  const abeam = Math.abs(Math.sin((relativeAngle * Math.PI) / 180));
+  const sunrise = SUN_EVENT_THRESHOLDS[0].altitude;
+
+  if (altitude < -6) return 0;
+  if (altitude < sunrise) return TWILIGHT_GLOW_QUALITY * abeam;
+  if (altitude <= LOW_SUN_ALTITUDE) return abeam;
+  return Math.max(0.2, 1 - (altitude - LOW_SUN_ALTITUDE) / 40) * abeam;
+}
+
+/**
+ * Score how scenic each side of the cabin is over the whole flight
+ * @param samples Samples of the flight (default: sampleFlightSun)
+ * @returns Minutes of visible and low sun, the peak moment and a 0..100
+ * score per side (quality-minutes saturating at SCORE_SATURATION_MINUTES)
+ */
+export function calculateScenicScore(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {},
+  samples: SunSample[] = sampleFlightSun(
+    departureLat, departureLng, arrivalLat, arrivalLng, departureTime, flightDuration, options
+  )
+): ScenicScore {
+  const { windowFov = DEFAULT_WINDOW_FOV } = options;
+  const emptySide = (): SideScore => ({
+    visibleMinutes: 0,
+    horizonMinutes: 0,
+    peakTime: null,
+    peakQuality: 0,
+    score: 0,
+  });
+  const result: ScenicScore = { left: emptySide(), right: emptySide() };
+  if (flightDuration <= 0) return result;
+
+  const qualityMinutes = { left: 0, right: 0 };
+
+  for (const { time, minutes, position, sun } of samples) {
+    const relativeAngle = calculateSunRelativeAngle(position.heading, sun.azimuth);
+
+    // Below the horizon only the glow on the horizon can be seen
+    const elevation = Math.max(sun.altitude, 0) - calculateHorizonDip(position.altitude);
+    const sideKey = getWindowViewSide(relativeAngle, elevation, windowFov);
+    if (!sideKey) continue;
+    const side = result[sideKey];
+
+    if (sun.altitude > SUN_EVENT_THRESHOLDS[0].altitude) {
+      side.visibleMinutes += minutes;
+      if (sun.altitude <= LOW_SUN_ALTITUDE) side.horizonMinutes += minutes;
+    }
+
+    const quality = scenicQuality(sun.altitude, relativeAngle);
+    qualityMinutes[sideKey] += quality * minutes;
+    if (quality > side.peakQuality) {
+      side.peakQuality = quality;
+      side.peakTime = time;
+    }
+  }
+
+  for (const sideKey of ['left', 'right'] as const) {
+    const side = result[sideKey];
+    side.visibleMinutes = Math.round(side.visibleMinutes);
+    side.horizonMinutes = Math.round(side.horizonMinutes);
+    side.score = Math.round(100 * (1 - Math.exp(-qualityMinutes[sideKey] / SCORE_SATURATION_MINUTES)));
+  }
+
+  return result;
+}
+
+/**
+ * Categorical scenic side from per-side scores: a side counts when it scores
+ * at least MIN_SIDE_SCORE and is not dwarfed by the other side
+ */
+export function deriveScenicSide(score: ScenicScore): 'left' | 'right' | 'both' | 'none' {
+  const best = Math.max(score.left.score, score.right.score);
+  if (best < MIN_SIDE_SCORE) return 'none';
+
+  const counts = (s: number) => s >= MIN_SIDE_SCORE && s >= best * MINOR_SIDE_RATIO;
+  const left = counts(score.left.score);
+  const right = counts(score.right.score);
+
+  if (left && right) return 'both';
+  return left ? 'left' : 'right';
+}
+
 /**
  * Sun position at a given flight progress
  */
 export function getSunPositionAtFlightProgress(
   departureTime: Date,
-  flightDuration: number,
+  profile: FlightProfile,
   progress: number,
   currentLat: number,
-  currentLng: number
+  currentLng: number,
+  cruiseAltitude: number = DEFAULT_CRUISE_ALTITUDE
 ): SunPosition {
-  const currentTime = new Date(
-    departureTime.getTime() + flightDuration * progress * 60 * 60 * 1000
+  const elapsedHours = profile.duration * progress;
+  const currentTime = new Date(departureTime.getTime() + elapsedHours * 60 * 60 * 1000);
+  const aircraftAltitude = getAircraftAltitude(profile, elapsedHours, cruiseAltitude);
+  return getSunPosition(currentTime, currentLat, currentLng, aircraftAltitude);
+}
+
+export interface FlightPosition {
+  lat: number;
+  lng: number;
+  bearing: number; // degrees, direction of travel over the ground
+  heading: number; // degrees, direction the nose points (window sides follow this)
+  altitude: number; // meters above the surface
+}
+
+/**
+ * Build a function that returns the aircraft position at any instant of a
+ * shortest-path flight on the chosen Earth model, following the flight profile's speed schedule (slower
+ * through the climb and descent) and altitude ramps
+ */
+export function createFlightTrajectory(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  cruiseAltitude: number = DEFAULT_CRUISE_ALTITUDE,
+  earthModel: EarthModel = 'wgs84'
+): (time: Date) => FlightPosition {
+  const startMs = departureTime.getTime();
+  const line = createGeodesicLine(departureLat, departureLng, arrivalLat, arrivalLng, earthModel);
+  const profile = createFlightProfile(
+    geodesicInverse(departureLat, departureLng, arrivalLat, arrivalLng, earthModel).distance,
+    flightDuration
   );
-  return getSunPosition(currentTime, currentLat, currentLng);
+
+  return (time: Date) => {
+    const elapsedHours = (time.getTime() - startMs) / (60 * 60 * 1000);
+    const fraction = getProfileFraction(profile, elapsedHours);
+    const point = line(fraction);
+    return {
+      ...point,
+      heading: point.bearing,
+      altitude: getAircraftAltitude(profile, elapsedHours, cruiseAltitude),
+    };
+  };
 }
 
 /**
- * Main: compute sun behaviour for the flight
+ * Build a function that returns the aircraft position at any instant along a
+ * flown track. Timed tracks are followed by their timestamps; untimed tracks
+ * are flown at a constant speed over the given duration. Altitude comes from
+ * the track when it has one, otherwise from the climb/cruise/descent ramps;
+ * it is taken as height above the ground (see toHeightAboveGround).
  */
-export function calculateFlightSunData(
+export function createTrackTrajectory(
+  track: FlightTrack,
+  departureTime: Date,
+  flightDuration: number,
+  cruiseAltitude: number = DEFAULT_CRUISE_ALTITUDE
+): (time: Date) => FlightPosition {
+  const startMs = departureTime.getTime();
+  const profile = createFlightProfile(track.distance, flightDuration);
+
+  return (time: Date) => {
+    const elapsedHours = (time.getTime() - startMs) / (60 * 60 * 1000);
+    const fraction = flightDuration > 0 ? elapsedHours / flightDuration : 0;
+    const point = track.timed
+      ? getTrackPointAtTime(track, time)
+      : getTrackPointAtDistance(track, fraction * track.distance);
+    return {
+      lat: point.lat,
+      lng: point.lng,
+      bearing: point.bearing,
+      heading: point.bearing,
+      altitude: point.altitude ?? getAircraftAltitude(profile, elapsedHours, cruiseAltitude),
+    };
+  };
+}
+
+/**
+ * Aircraft position function for a flight: along `options.track` when given,
+ * otherwise along the shortest path on `options.earthModel`. With
+ * `options.wind`, the heading is the course corrected for the wind at each
+ * instant, at the typical cruise airspeed for the route length; tracks with
+ * recorded headings keep them. With `options.runways`, the shortest path
+ * starts and ends with the runway procedures of applyRunwayProcedures.
+ */
+export function getFlightTrajectory(
   departureLat: number,
   departureLng: number,
   arrivalLat: number,
   arrivalLng: number,
   departureTime: Date,
-  flightDuration: number
-): FlightSunData {
-  const departureSun = getSunPosition(departureTime, departureLat, departureLng);
+  flightDuration: number,
+  options: FlightSunOptions = {}
+): (time: Date) => FlightPosition {
+  const { cruiseAltitude = DEFAULT_CRUISE_ALTITUDE, earthModel, track, wind, runways } = options;
+  const trajectory = track
+    ? createTrackTrajectory(track, departureTime, flightDuration, cruiseAltitude)
+    : createFlightTrajectory(
+      departureLat, departureLng,
+      arrivalLat, arrivalLng,
+      departureTime,
+      flightDuration,
+      cruiseAltitude,
+      earthModel
+    );
+  // Flown tracks already hold the real takeoff and landing
+  const withRunways = (positionAt: (time: Date) => FlightPosition) =>
+    track || !runways ? positionAt : applyRunwayProcedures(positionAt, departureTime, flightDuration, runways);
+  if (!wind || track?.hasHeading) return withRunways(trajectory);
 
-  const arrivalTime = new Date(
-    departureTime.getTime() + flightDuration * 60 * 60 * 1000
+  const trueAirspeed = getCruiseSpeed(
+    track ? track.distance : geodesicInverse(departureLat, departureLng, arrivalLat, arrivalLng, earthModel).distance
   );
-  const arrivalSun = getSunPosition(arrivalTime, arrivalLat, arrivalLng);
+  return withRunways((time: Date) => {
+    const position = trajectory(time);
+    const { heading } = calculateWindCorrection(
+      position.bearing,
+      trueAirspeed,
+      getWindVector(wind, position.lat, time)
+    );
+    return { ...position, heading };
+  });
+}
 
-  const departureTimes = calculateSunriseSunset(departureLat, departureLng, departureTime);
-  const arrivalTimes = calculateSunriseSunset(arrivalLat, arrivalLng, arrivalTime);
+// Aircraft position and the sun seen from it at an instant of the flight
+export type FlightSunAt = (time: Date) => { position: FlightPosition; sun: SunPosition };
 
-  let sunriseTime: Date = departureTimes.sunrise || new Date(departureTime);
-  let sunsetTime: Date = departureTimes.sunset || new Date(departureTime);
+/**
+ * Build the aircraft-and-sun function of a flight (see getFlightTrajectory)
+ * once, so the samplers and event solvers of one flight share the trajectory.
+ * Results are cached by instant, since they revisit the same times.
+ */
+export function createFlightSunAt(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {}
+): FlightSunAt {
+  const trajectory = getFlightTrajectory(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options
+  );
+  const cache = new Map<number, ReturnType<FlightSunAt>>();
 
-  if (arrivalTime.getDate() !== departureTime.getDate()) {
-    if (
-      arrivalTimes.sunrise &&
-      arrivalTimes.sunrise > departureTime &&
-      arrivalTimes.sunrise < arrivalTime
-    ) {
-      sunriseTime = arrivalTimes.sunrise;
-    }
-    if (
-      arrivalTimes.sunset &&
-      arrivalTimes.sunset > departureTime &&
-      arrivalTimes.sunset < arrivalTime
-    ) {
-      sunsetTime = arrivalTimes.sunset;
-    }
-  } else {
-    if (
-      departureTimes.sunrise &&
-      departureTimes.sunrise > departureTime &&
-      departureTimes.sunrise < arrivalTime
-    ) {
-      sunriseTime = departureTimes.sunrise;
-    }
-    if (
-      departureTimes.sunset &&
-      departureTimes.sunset > departureTime &&
-      departureTimes.sunset < arrivalTime
-    ) {
-      sunsetTime = departureTimes.sunset;
+  return (time: Date) => {
+    const cached = cache.get(time.getTime());
+    if (cached) return cached;
+    const position = trajectory(time);
+    const state = { position, sun: getSunPosition(time, position.lat, position.lng, position.altitude) };
+    cache.set(time.getTime(), state);
+    return state;
+  };
+}
+
+/**
+ * Sample the aircraft and the sun over a flight in slices of
+ * `options.stepMinutes`, halving a slice while the sun is between civil
+ * twilight and LOW_SUN_ALTITUDE or the heading turns by more than
+ * REFINE_TURN_DEGREES, so short sunrise windows and turns are not stepped over
+ * @param sunAt Aircraft and sun along the flight (default: createFlightSunAt)
+ * @returns One sample per slice, in time order, covering the whole flight
+ */
+export function sampleFlightSun(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {},
+  sunAt: FlightSunAt = createFlightSunAt(
+    departureLat, departureLng, arrivalLat, arrivalLng, departureTime, flightDuration, options
+  )
+): SunSample[] {
+  const { stepMinutes = 5 } = options;
+  const samples: SunSample[] = [];
+  if (flightDuration <= 0) return samples;
+
+  const stateAt = (ms: number) => {
+    const time = new Date(ms);
+    return { time, ...sunAt(time) };
+  };
+  type State = ReturnType<typeof stateAt>;
+
+  const addSlice = (startMs: number, endMs: number, start: State, end: State, depth: number) => {
+    const middle = stateAt((startMs + endMs) / 2);
+    const altitudes = [start.sun.altitude, middle.sun.altitude, end.sun.altitude];
+    const nearHorizon = Math.max(...altitudes) >= REFINE_MIN_SUN_ALTITUDE &&
+      Math.min(...altitudes) <= LOW_SUN_ALTITUDE;
+    const turning = Math.abs(calculateSunRelativeAngle(start.position.heading, end.position.heading)) > REFINE_TURN_DEGREES;
+
+    if (depth < ADAPTIVE_MAX_DEPTH && (nearHorizon || turning)) {
+      const middleMs = (startMs + endMs) / 2;
+      addSlice(startMs, middleMs, start, middle, depth + 1);
+      addSlice(middleMs, endMs, middle, end, depth + 1);
+      return;
     }
+    samples.push({ ...middle, minutes: (endMs - startMs) / (60 * 1000) });
+  };
+
+  const startMs = departureTime.getTime();
+  const totalMs = flightDuration * 60 * 60 * 1000;
+  const steps = Math.max(1, Math.ceil(totalMs / (stepMinutes * 60 * 1000)));
+  let previous = stateAt(startMs);
+  for (let i = 1; i <= steps; i++) {
+    const next = stateAt(startMs + (i / steps) * totalMs);
+    addSlice(startMs + ((i - 1) / steps) * totalMs, startMs + (i / steps) * totalMs, previous, next, 0);
+    previous = next;
   }
 
-  const pathPoints = generateGreatCirclePath(
-    departureLat,
-    departureLng,
-    arrivalLat,
-    arrivalLng,
-    20
-  );
+  return samples;
+}
 
-  const visibleSunPositions: { azimuth: number; altitude: number; bearing: number }[] = [];
+/**
+ * Walk an altitude function over a time window and locate every crossing of
+ * the given thresholds. Each sign change is refined by bisection to about a
+ * second.
+ * @param altitudeAt Altitude in degrees at a given instant
+ * @param thresholds Altitudes (degrees) whose crossings are wanted
+ * @param stepMinutes Coarse sampling step in minutes (default: 5)
+ * @returns Crossings sorted by time
+ */
+export function findAltitudeCrossings(
+  altitudeAt: (time: Date) => number,
+  startTime: Date,
+  endTime: Date,
+  thresholds: number[],
+  stepMinutes: number = 5
+): { time: Date; threshold: number; rising: boolean }[] {
+  const crossings: { time: Date; threshold: number; rising: boolean }[] = [];
+  const startMs = startTime.getTime();
+  const endMs = endTime.getTime();
+  const stepMs = stepMinutes * 60 * 1000;
+  const valueAt = (ms: number) => altitudeAt(new Date(ms));
 
-  for (let i = 0; i < pathPoints.length - 1; i++) {
-    const [lng, lat] = pathPoints[i];
-    const [nextLng, nextLat] = pathPoints[i + 1];
+  let prevMs = startMs;
+  let prevAltitude = valueAt(prevMs);
 
-    const progress = i / (pathPoints.length - 1);
-    const currentTime = new Date(
-      departureTime.getTime() + flightDuration * progress * 60 * 60 * 1000
-    );
+  while (prevMs < endMs) {
+    const nextMs = Math.min(prevMs + stepMs, endMs);
+    const nextAltitude = valueAt(nextMs);
+
+    for (const threshold of thresholds) {
+      const before = prevAltitude - threshold;
+      const after = nextAltitude - threshold;
+      if (before === 0 || Math.sign(before) === Math.sign(after)) continue;
 
-    const sunPos = getSunPosition(currentTime, lat, lng);
-    const bearing = calculateBearing(lat, lng, nextLat, nextLng);
+      let lo = prevMs;
+      let hi = nextMs;
+      while (hi - lo > 1000) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(valueAt(mid) - threshold) === Math.sign(before)) {
+          lo = mid;
+        } else {
+          hi = mid;
+        }
+      }
 
-    if (sunPos.altitude > -6) {
-      visibleSunPositions.push({
-        azimuth: sunPos.azimuth,
-        altitude: sunPos.altitude,
-        bearing,
+      crossings.push({
+        time: new Date(Math.round((lo + hi) / 2)),
+        threshold,
+        rising: after > 0,
       });
     }
-  }
 
-  if (arrivalSun.altitude > -6) {
-    const lastBearing =
-      visibleSunPositions.length > 0
-        ? visibleSunPositions[visibleSunPositions.length - 1].bearing
-        : calculateBearing(departureLat, departureLng, arrivalLat, arrivalLng);
-
-    visibleSunPositions.push({
-      azimuth: arrivalSun.azimuth,
-      altitude: arrivalSun.altitude,
-      bearing: lastBearing,
-    });
+    prevMs = nextMs;
+    prevAltitude = nextAltitude;
   }
 
-  if (visibleSunPositions.length === 0) {
+  return crossings.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Find every sunrise, sunset and twilight-boundary crossing experienced by the
+ * aircraft while it flies the great-circle route. Altitudes are measured from
+ * the horizon visible at the aircraft's current height.
+ * @param sunAt Aircraft and sun along the flight (default: createFlightSunAt)
+ * @returns Events sorted by time
+ */
+export function findFlightSunEvents(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {},
+  sunAt: FlightSunAt = createFlightSunAt(
+    departureLat, departureLng, arrivalLat, arrivalLng, departureTime, flightDuration, options
+  )
+): SunEvent[] {
+  const { stepMinutes = 5 } = options;
+  if (flightDuration <= 0) return [];
+
+  const arrivalTime = new Date(departureTime.getTime() + flightDuration * 60 * 60 * 1000);
+  const crossings = findAltitudeCrossings(
+    (time) => sunAt(time).sun.altitude,
+    departureTime,
+    arrivalTime,
+    SUN_EVENT_THRESHOLDS.map((t) => t.altitude),
+    stepMinutes
+  );
+
+  return crossings.map((crossing) => {
+    const threshold = SUN_EVENT_THRESHOLDS.find((t) => t.altitude === crossing.threshold)!;
+    const { position, sun } = sunAt(crossing.time);
     return {
-      departureSun,
-      arrivalSun,
-      scenicSide: 'none',
-      sunriseTime,
-      sunsetTime,
-      flightDuration,
+      type: crossing.rising ? threshold.rising : threshold.setting,
+      time: crossing.time,
+      lat: position.lat,
+      lng: position.lng,
+      azimuth: sun.azimuth,
+      side: calculateSunRelativeAngle(position.heading, sun.azimuth) >= 0 ? 'right' : 'left',
     };
+  });
+}
+
+/**
+ * Classify a sun altitude into a photographic light phase
+ * @param altitude Sun altitude in degrees above the visible horizon
+ */
+export function classifyLightPhase(altitude: number): LightPhase {
+  const bound = LIGHT_PHASE_BOUNDS.find((b) => altitude >= b.minAltitude);
+  return bound ? bound.phase : 'night';
+}
+
+/**
+ * Split the flight into time ranges of constant light phase. Boundaries are
+ * the exact crossings of the phase thresholds; the sun side of each range is
+ * taken from samples inside it.
+ * @param sunAt Aircraft and sun along the flight (default: createFlightSunAt)
+ * @returns Segments covering departure to arrival without gaps
+ */
+export function calculateLightSegments(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {},
+  sunAt: FlightSunAt = createFlightSunAt(
+    departureLat, departureLng, arrivalLat, arrivalLng, departureTime, flightDuration, options
+  )
+): LightSegment[] {
+  const { stepMinutes = 5, windowFov = DEFAULT_WINDOW_FOV } = options;
+  if (flightDuration <= 0) return [];
+
+  const arrivalTime = new Date(departureTime.getTime() + flightDuration * 60 * 60 * 1000);
+  const boundaries = findAltitudeCrossings(
+    (time) => sunAt(time).sun.altitude,
+    departureTime,
+    arrivalTime,
+    LIGHT_PHASE_BOUNDS.map((b) => b.minAltitude),
+    stepMinutes
+  ).map((c) => c.time.getTime());
+
+  const edges = [departureTime.getTime(), ...boundaries, arrivalTime.getTime()];
+  const segments: LightSegment[] = [];
+
+  for (let i = 0; i < edges.length - 1; i++) {
+    const startMs = edges[i];
+    const endMs = edges[i + 1];
+    if (endMs <= startMs) continue;
+
+    const phase = classifyLightPhase(sunAt(new Date((startMs + endMs) / 2)).sun.altitude);
+
+    // Sample the segment to find which windows see the sun (or its glow)
+    let side: LightSegment['side'] = 'none';
+    if (phase !== 'night') {
+      const sampleCount = Math.max(2, Math.ceil((endMs - startMs) / (stepMinutes * 60 * 1000)));
+      const sides: ('left' | 'right' | null)[] = [];
+      for (let j = 0; j <= sampleCount; j++) {
+        const { position, sun } = sunAt(new Date(startMs + ((endMs - startMs) * j) / sampleCount));
+        const elevation = Math.max(sun.altitude, 0) - calculateHorizonDip(position.altitude);
+        sides.push(getWindowViewSide(calculateSunRelativeAngle(position.heading, sun.azimuth), elevation, windowFov));
+      }
+      side = combineViewSides(sides);
+    }
+
+    // Merge with the previous segment when nothing changed (e.g. a grazing crossing)
+    const previous = segments[segments.length - 1];
+    if (previous && previous.phase === phase && previous.side === side) {
+      previous.end = new Date(endMs);
+    } else {
+      segments.push({ phase, start: new Date(startMs), end: new Date(endMs), side });
+    }
   }
 
-  const relativeAngles = visibleSunPositions.map((pos) =>
-    calculateSunRelativeAngle(pos.bearing, pos.azimuth)
+  return segments;
+}
+
+/**
+ * Main: compute sun behaviour for the flight
+ */
+export function calculateFlightSunData(
+  departureLat: number,
+  departureLng: number,
+  arrivalLat: number,
+  arrivalLng: number,
+  departureTime: Date,
+  flightDuration: number,
+  options: FlightSunOptions = {}
+): FlightSunData {
+  const departureSun = getSunPosition(departureTime, departureLat, departureLng);
+
+  const arrivalTime = new Date(
+    departureTime.getTime() + flightDuration * 60 * 60 * 1000
+  );
+  const arrivalSun = getSunPosition(arrivalTime, arrivalLat, arrivalLng);
+
+  const departureTimes = calculateSunriseSunset(
+    departureLat, departureLng, departureTime, options.departureTimeZone
+  );
+  const arrivalTimes = calculateSunriseSunset(
+    arrivalLat, arrivalLng, arrivalTime, options.arrivalTimeZone
+  );
+
+  // An airport event during the flight beats the departure day's times
+  const duringFlight = (time: Date | null): time is Date =>
+    time !== null && time > departureTime && time < arrivalTime;
+  let sunriseTime: Date | null =
+    [arrivalTimes.sunrise, departureTimes.sunrise].find(duringFlight) ?? departureTimes.sunrise;
+  let sunsetTime: Date | null =
+    [arrivalTimes.sunset, departureTimes.sunset].find(duringFlight) ?? departureTimes.sunset;
+
+  // One trajectory and its sun positions serve every sampler below
+  const sunAt = createFlightSunAt(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options
   );
 
-  const scenicSide = determineScenicSideFromTrajectory(relativeAngles);
+  // Prefer the crossings actually seen from the aircraft over airport times
+  const events = findFlightSunEvents(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options,
+    sunAt
+  );
+  const onboardSunrise = events.find((e) => e.type === 'sunrise');
+  const onboardSunset = events.find((e) => e.type === 'sunset');
+  if (onboardSunrise) sunriseTime = onboardSunrise.time;
+  if (onboardSunset) sunsetTime = onboardSunset.time;
+
+  // Midnight sun / polar night: an endpoint is in a polar state and the
+  // aircraft never sees the sun cross the horizon
+  let daylightStatus: DaylightStatus = 'normal';
+  if (!onboardSunrise && !onboardSunset) {
+    const airportStatuses = [departureTimes.status, arrivalTimes.status];
+    const sunUp = departureSun.altitude > SUN_EVENT_THRESHOLDS[0].altitude;
+    if (sunUp && airportStatuses.includes('midnightSun')) {
+      daylightStatus = 'midnightSun';
+    } else if (!sunUp && airportStatuses.includes('polarNight')) {
+      daylightStatus = 'polarNight';
+    }
+  }
+  if (daylightStatus !== 'normal') {
+    sunriseTime = null;
+    sunsetTime = null;
+  }
+
+  const lightSegments = calculateLightSegments(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options,
+    sunAt
+  );
+  const samples = sampleFlightSun(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options,
+    sunAt
+  );
+
+  const exposure = calculateSideExposure(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options,
+    samples
+  );
+  const shadeSide = getShadeSide(exposure);
+
+  const scenicScore = calculateScenicScore(
+    departureLat, departureLng,
+    arrivalLat, arrivalLng,
+    departureTime,
+    flightDuration,
+    options,
+    samples
+  );
+  const scenicSide = deriveScenicSide(scenicScore);
 
   return {
     departureSun,
     arrivalSun,
     scenicSide,
+    scenicScore,
+    daylightStatus,
     sunriseTime,
     sunsetTime,
     flightDuration,
+    events,
+    lightSegments,
+    exposure,
+    shadeSide,
   };
 }
@@ -0,0 +1,104 @@
+import referenceData from '../data/sunReference.json';
+import { findAirportByCode } from './cities';
+import { calculateSunriseSunset } from './sun';
+import { zonedTimeToUtc } from './time';
+
+export interface SunReferenceEntry {
+  code: string; // airport IATA code
+  date: string; // local calendar date at the airport (YYYY-MM-DD)
+  sunrise: string | null; // UTC, rounded to the minute; null when the sun does not rise that day
+  sunset: string | null;
+}
+
+export interface SunReferenceMismatch {
+  code: string;
+  date: string;
+  event: 'sunrise' | 'sunset' | 'missing';
+  expected: string | null;
+  actual: string | null;
+  differenceMinutes: number | null;
+}
+
+// Layout of src/data/sunReference.json, generated by scripts/generate-sun-reference.mjs
+interface SunReferenceDataset {
+  dates: string[];
+  // IATA code, then sunrise and sunset of each date in minutes after 0h UTC
+  // on that date (negative or past 1440 when the UTC day differs); null for none
+  airports: [string, ...(number | null)[]][];
+}
+
+const dataset = referenceData as unknown as SunReferenceDataset;
+
+/**
+ * Minutes after 0h UTC on a date as an ISO timestamp rounded to the minute
+ */
+function toUtcMinute(date: string, minutes: number | null): string | null {
+  if (minutes === null) return null;
+  return new Date(Date.parse(`${date}T00:00Z`) + minutes * 60000).toISOString().slice(0, 16) + 'Z';
+}
+
+/**
+ * Reference sunrise/sunset (upper limb, standard refraction) for every airport
+ * in src/data/airports.json at the March equinox and both 2025 solstices,
+ * computed with the NOAA solar calculator equations at its coordinates.
+ */
+export const SUN_REFERENCE: SunReferenceEntry[] = dataset.airports.flatMap(([code, ...times]) =>
+  dataset.dates.map((date, index) => ({
+    code,
+    date,
+    sunrise: toUtcMinute(date, times[index * 2]),
+    sunset: toUtcMinute(date, times[index * 2 + 1]),
+  }))
+);
+
+/**
+ * Check calculateSunriseSunset against the reference table, using each
+ * airport's own timezone to pick the local day
+ * @param toleranceMinutes Allowed difference per event (default: 2)
+ * @returns Mismatches and reference rows whose airport is not in the database; empty when all pass
+ */
+export function verifySunReference(toleranceMinutes: number = 2): SunReferenceMismatch[] {
+  const mismatches: SunReferenceMismatch[] = [];
+
+  for (const entry of SUN_REFERENCE) {
+    const airport = findAirportByCode(entry.code);
+    if (!airport) {
+      mismatches.push({
+        code: entry.code,
+        date: entry.date,
+        event: 'missing',
+        expected: null,
+        actual: null,
+        differenceMinutes: null,
+      });
+      continue;
+    }
+
+    const [year, month, day] = entry.date.split('-').map(Number);
+    const localNoon = zonedTimeToUtc(year, month, day, 12, 0, airport.timezone);
+    const times = calculateSunriseSunset(airport.lat, airport.lng, localNoon, airport.timezone);
+
+    for (const event of ['sunrise', 'sunset'] as const) {
+      const expected = entry[event];
+      const actual = times[event];
+      // A polar day or night passes when neither has the event
+      if (expected === null && actual === null) continue;
+      const differenceMinutes = expected !== null && actual
+        ? Math.abs(actual.getTime() - new Date(expected).getTime()) / 60000
+        : null;
+
+      if (differenceMinutes === null || differenceMinutes > toleranceMinutes) {
+        mismatches.push({
+          code: entry.code,
+          date: entry.date,
+          event,
+          expected,
+          actual: actual ? actual.toISOString() : null,
+          differenceMinutes,
+        });
+      }
+    }
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,256 @@
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in an IANA timezone
+ */
+export function getZonedDateParts(instant: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * UTC offset of an IANA timezone at a given instant
+ * @returns Offset in minutes (positive east of Greenwich)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const p = getZonedDateParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+// How to read a wall-clock time that a DST change skips (gap) or repeats (overlap):
+// 'compatible' moves a skipped time forward by the gap and takes the earlier of
+// two repeated times; 'earlier' and 'later' pick that side; 'reject' refuses both
+export type DstDisambiguation = 'compatible' | 'earlier' | 'later' | 'reject';
+
+// Whether a wall-clock time exists once, was skipped or happens twice in its timezone
+export type ZonedTimeStatus = 'exact' | 'gap' | 'overlap';
+
+export interface ZonedTimeResolution {
+  instant: Date;
+  status: ZonedTimeStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve a wall-clock time in an IANA timezone to a UTC instant, detecting
+ * times skipped or repeated by a daylight saving change
+ * @param month Month 1-12
+ * @returns The instant and how the time was resolved, or an error when
+ * disambiguation is 'reject' and the time is not exact
+ */
+export function resolveZonedTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+  disambiguation: DstDisambiguation = 'compatible'
+): ZonedTimeResolution | { error: string } {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offsets in force a day either side bracket any transition near this time
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map((offset) => wallClock - offset * 60000)
+    .filter((utc) => getTimeZoneOffset(new Date(utc), timeZone) * 60000 === wallClock - utc)
+    .sort((a, b) => a - b);
+
+  if (candidates.length === 1) {
+    return { instant: new Date(candidates[0]), status: 'exact' };
+  }
+
+  const local = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T` +
+    `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+  if (candidates.length > 1) {
+    if (disambiguation === 'reject') {
+      return { error: `${local} happens twice in ${timeZone} (clocks go back); choose the earlier or later one` };
+    }
+    const utc = disambiguation === 'later' ? candidates[candidates.length - 1] : candidates[0];
+    return { instant: new Date(utc), status: 'overlap' };
+  }
+
+  if (disambiguation === 'reject') {
+    return { error: `${local} does not exist in ${timeZone} (clocks go forward)` };
+  }
+  // Reading the time with the offset from before the change lands after the gap,
+  // and with the offset from after it lands before the gap
+  const utc = wallClock - (disambiguation === 'earlier' ? offsetAfter : offsetBefore) * 60000;
+  return { instant: new Date(utc), status: 'gap' };
+}
+
+/**
+ * Convert a wall-clock time in an IANA timezone to a UTC instant
+ * @param month Month 1-12
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  return (resolveZonedTime(year, month, day, hour, minute, timeZone) as ZonedTimeResolution).instant;
+}
+
+// A departure time as given and as understood
+export interface LocalDepartureTime {
+  local: string | null; // wall-clock time as entered, or null when it carried its own offset
+  timeZone: string; // zone a wall-clock time was read in
+  status: ZonedTimeStatus;
+  utc: string; // ISO instant it was resolved to
+}
+
+/**
+ * Whether a date exists in the calendar (Date.UTC rolls 2025-02-31 over into March)
+ */
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Read a departure time: an ISO 8601 time with `Z` or an offset is used as is,
+ * and a wall-clock time without one (`2025-06-01T09:30`) is read in timeZone
+ * @returns The instant and how it was read, or an error for a malformed or rejected time
+ */
+export function parseDepartureTime(
+  value: string,
+  timeZone: string,
+  disambiguation: DstDisambiguation = 'compatible'
+): { time: Date; departure: LocalDepartureTime } | { error: string } {
+  const trimmed = value.trim();
+  const wallClock = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(trimmed);
+
+  if (!wallClock) {
+    const time = new Date(trimmed);
+    const date = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed)?.slice(1).map(Number);
+    if (
+      !/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed) || isNaN(time.getTime()) ||
+      (date && !isCalendarDate(date[0], date[1], date[2]))
+    ) {
+      return { error: 'Invalid departure time format' };
+    }
+    return { time, departure: { local: null, timeZone, status: 'exact', utc: time.toISOString() } };
+  }
+
+  const [year, month, day, hour, minute] = wallClock.slice(1).map(Number);
+  if (!isCalendarDate(year, month, day) || hour > 23 || minute > 59) {
+    return { error: 'Invalid departure time format' };
+  }
+
+  const resolved = resolveZonedTime(year, month, day, hour, minute, timeZone, disambiguation);
+  if ('error' in resolved) return resolved;
+
+  return {
+    time: resolved.instant,
+    departure: {
+      local: trimmed,
+      timeZone,
+      status: resolved.status,
+      utc: resolved.instant.toISOString(),
+    },
+  };
+}
+
+const displayFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const DISPLAY_STYLES: Record<'time' | 'dateTime' | 'date', Intl.DateTimeFormatOptions> = {
+  time: { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZoneName: 'short' },
+  dateTime: { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZoneName: 'short' },
+  date: { weekday: 'short', month: 'short', day: 'numeric' },
+};
+
+/**
+ * Format an instant as wall-clock time in an IANA timezone for display
+ * @param timeZone Zone to show, or undefined for the viewer's own
+ * @returns e.g. "09:30 GMT+9", "Jun 1, 09:30 EDT" or "Sun, Jun 1"
+ */
+export function formatZonedTime(
+  instant: Date | string,
+  timeZone?: string,
+  style: 'time' | 'dateTime' | 'date' = 'time'
+): string {
+  const key = `${timeZone ?? ''}|${style}`;
+  let formatter = displayFormatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { ...DISPLAY_STYLES[style], timeZone });
+    displayFormatterCache.set(key, formatter);
+  }
+  return formatter.format(new Date(instant));
+}
+
+/**
+ * Format an instant in UTC, e.g. "2025-06-01 00:30 UTC"
+ */
+export function formatUtcTime(instant: Date | string): string {
+  return `${new Date(instant).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Timezone to show an in-flight time in: the departure airport's during the
+ * first half of the flight and the arrival airport's during the second
+ */
+export function getRelevantTimeZone<Zone extends string | undefined>(
+  time: Date,
+  departureTime: Date,
+  arrivalTime: Date,
+  departureTimeZone: Zone,
+  arrivalTimeZone: Zone
+): Zone {
+  const midpoint = (departureTime.getTime() + arrivalTime.getTime()) / 2;
+  return time.getTime() <= midpoint ? departureTimeZone : arrivalTimeZone;
+}
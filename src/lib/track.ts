@@ -0,0 +1,500 @@
+import { haversineDistance, interpolateGreatCircle } from './geo';
+
+// File formats a flown track can be imported from
+export type TrackFormat = 'gpx' | 'kml' | 'geojson' | 'csv';
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  altitude?: number; // meters, above sea level as recorded ('ground' reports read as 0) until toHeightAboveGround
+  time?: Date;
+  heading?: number; // recorded direction of travel in degrees (0° = North)
+}
+
+// A flown route, cleaned up and measured for interpolation
+export interface FlightTrack {
+  format: TrackFormat;
+  points: TrackPoint[];
+  distances: number[]; // km from the first point to each point
+  distance: number; // total length in kilometers
+  timed: boolean; // every point has a timestamp, in flight order
+  hasAltitude: boolean; // points carry usable altitudes
+  hasHeading: boolean; // every point has a recorded heading
+  altitudeReference: 'seaLevel' | 'ground'; // what the altitudes are measured from
+}
+
+// Largest track accepted, to keep the analysis responsive
+export const MAX_TRACK_POINTS = 50000;
+
+const FEET_TO_METERS = 0.3048;
+
+// Header names accepted for each column of an ADS-B CSV export, in order of preference
+const CSV_COLUMNS = {
+  time: ['timestamp', 'time', 'utc', 'datetime', 'date_time'],
+  lat: ['lat', 'latitude'],
+  lng: ['lon', 'lng', 'long', 'longitude'],
+  position: ['position'], // "lat,lon" in a single quoted column
+  altitude: ['altitude', 'alt', 'alt_baro', 'baro_altitude', 'alt_geom', 'geo_altitude'],
+  heading: ['heading', 'track', 'true_track', 'direction', 'course'],
+};
+
+/**
+ * Guess the format of a track file from its contents
+ * @returns The format, or null when the text is not a recognized track
+ */
+export function detectTrackFormat(text: string): TrackFormat | null {
+  const head = text.trimStart().slice(0, 2000);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/i.test(head)) return 'gpx';
+  if (/<kml[\s>]/i.test(head)) return 'kml';
+  if (/^[^\n]*,/.test(head) && /^[^\n]*\b(lat|latitude|position)\b/i.test(head)) return 'csv';
+  return null;
+}
+
+/**
+ * Read an XML attribute value from an element's attribute text
+ */
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(attributes);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Read the text of the first child element with the given tag
+ */
+function readElement(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'i').exec(xml);
+  return match ? match[1].trim() : undefined;
+}
+
+function parseTime(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value);
+  return isNaN(time.getTime()) ? undefined : time;
+}
+
+function parseAltitude(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const altitude = Number(value);
+  return Number.isFinite(altitude) ? altitude : undefined;
+}
+
+/**
+ * Track points (or route points when there is no track) of a GPX document
+ */
+function parseGpx(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  const tag = /<trkpt\b/i.test(text) ? 'trkpt' : 'rtept';
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'gi');
+
+  for (const match of text.matchAll(pattern)) {
+    const body = match[2] ?? '';
+    points.push({
+      lat: Number(readAttribute(match[1], 'lat')),
+      lng: Number(readAttribute(match[1], 'lon')),
+      altitude: parseAltitude(readElement(body, 'ele')),
+      time: parseTime(readElement(body, 'time')),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Points of a KML document: a timed gx:Track when present, otherwise the
+ * coordinates of every LineString in document order
+ */
+function parseKml(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+
+  const coords = [...text.matchAll(/<gx:coord\b[^>]*>([\s\S]*?)<\/gx:coord>/gi)];
+  if (coords.length > 0) {
+    const whens = [...text.matchAll(/<when\b[^>]*>([\s\S]*?)<\/when>/gi)];
+    coords.forEach((coord, i) => {
+      const [lng, lat, altitude] = coord[1].trim().split(/\s+/);
+      points.push({
+        lat: Number(lat),
+        lng: Number(lng),
+        altitude: parseAltitude(altitude),
+        time: whens.length === coords.length ? parseTime(whens[i][1].trim()) : undefined,
+      });
+    });
+    return points;
+  }
+
+  for (const line of text.matchAll(/<LineString\b[^>]*>([\s\S]*?)<\/LineString>/gi)) {
+    const coordinates = readElement(line[1], 'coordinates') ?? '';
+    for (const tuple of coordinates.split(/\s+/).filter(Boolean)) {
+      const [lng, lat, altitude] = tuple.split(',');
+      points.push({ lat: Number(lat), lng: Number(lng), altitude: parseAltitude(altitude) });
+    }
+  }
+
+  return points;
+}
+
+// The parts of a GeoJSON object the track reader looks at
+interface GeoJsonNode {
+  type?: string;
+  features?: GeoJsonNode[];
+  geometry?: GeoJsonNode;
+  geometries?: GeoJsonNode[];
+  coordinates?: unknown;
+  properties?: {
+    coordTimes?: unknown;
+    coordinateProperties?: { times?: unknown };
+  };
+}
+
+/**
+ * Points of every LineString and MultiLineString in a GeoJSON document.
+ * Timestamps are read from the `coordTimes` or `coordinateProperties.times`
+ * feature properties written by common GPX/KML converters.
+ */
+function parseGeoJson(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+
+  const addLine = (coordinates: unknown, times: unknown) => {
+    if (!Array.isArray(coordinates)) return;
+    coordinates.forEach((position, i) => {
+      if (!Array.isArray(position)) return;
+      points.push({
+        lat: Number(position[1]),
+        lng: Number(position[0]),
+        altitude: parseAltitude(position[2]),
+        time: Array.isArray(times) ? parseTime(times[i]) : undefined,
+      });
+    });
+  };
+
+  const visit = (node: GeoJsonNode | null | undefined, times?: unknown) => {
+    if (!node || typeof node !== 'object') return;
+    switch (node.type) {
+      case 'FeatureCollection':
+        (node.features ?? []).forEach((feature) => visit(feature));
+        break;
+      case 'Feature': {
+        const properties = node.properties ?? {};
+        visit(node.geometry, properties.coordTimes ?? properties.coordinateProperties?.times);
+        break;
+      }
+      case 'GeometryCollection':
+        (node.geometries ?? []).forEach((geometry) => visit(geometry));
+        break;
+      case 'LineString':
+        addLine(node.coordinates, times);
+        break;
+      case 'MultiLineString':
+        if (!Array.isArray(node.coordinates)) break;
+        node.coordinates.forEach((line, i) => {
+          addLine(line, Array.isArray(times) ? times[i] : undefined);
+        });
+        break;
+    }
+  };
+
+  visit(JSON.parse(text) as GeoJsonNode);
+  return points;
+}
+
+/**
+ * Split one CSV line into fields, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * ADS-B timestamps are UTC: Unix seconds (or milliseconds), or ISO dates
+ * that may omit the zone
+ */
+function parseCsvTime(value: string): Date | undefined {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    return new Date(number > 1e12 ? number : number * 1000);
+  }
+  if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value)) {
+    return parseTime(`${value.replace(' ', 'T')}Z`);
+  }
+  return parseTime(value);
+}
+
+/**
+ * Fixes of an ADS-B aggregator CSV export with a header row (timestamp,
+ * lat, lon, altitude, ground speed, heading in any order). Altitudes are
+ * read as feet unless the header says meters; rows without a position are skipped.
+ */
+function parseCsv(text: string): TrackPoint[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const rawHeaders = splitCsvLine(lines[0]).map((header) => header.toLowerCase());
+  // "Altitude (ft)", "ground-speed" and "baro altitude" all reduce to plain names
+  const headers = rawHeaders.map((header) => header.replace(/\(.*?\)/g, '').trim().replace(/[\s-]+/g, '_'));
+  const column = (names: string[]) => {
+    for (const name of names) {
+      const index = headers.indexOf(name);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const timeColumn = column(CSV_COLUMNS.time);
+  const latColumn = column(CSV_COLUMNS.lat);
+  const lngColumn = column(CSV_COLUMNS.lng);
+  const positionColumn = column(CSV_COLUMNS.position);
+  const altitudeColumn = column(CSV_COLUMNS.altitude);
+  const headingColumn = column(CSV_COLUMNS.heading);
+  if (positionColumn === -1 && (latColumn === -1 || lngColumn === -1)) {
+    throw new Error('CSV has no position columns');
+  }
+
+  const altitudeHeader = altitudeColumn !== -1 ? rawHeaders[altitudeColumn] : '';
+  const altitudeScale = /\bm\b|meter|metre|_m$/.test(altitudeHeader) ? 1 : FEET_TO_METERS;
+
+  const points: TrackPoint[] = [];
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line);
+    const [latText, lngText] = positionColumn !== -1
+      ? (fields[positionColumn] ?? '').split(',')
+      : [fields[latColumn], fields[lngColumn]];
+    if (!latText?.trim() || !lngText?.trim()) continue;
+
+    // On-ground reports carry "ground" instead of an altitude
+    const altitudeText = altitudeColumn !== -1 ? fields[altitudeColumn] : undefined;
+    const altitude = altitudeText?.toLowerCase() === 'ground' ? 0 : parseAltitude(altitudeText);
+    const heading = headingColumn !== -1 ? parseAltitude(fields[headingColumn]) : undefined;
+
+    points.push({
+      lat: Number(latText),
+      lng: Number(lngText),
+      altitude: altitude !== undefined ? altitude * altitudeScale : undefined,
+      time: timeColumn !== -1 && fields[timeColumn] ? parseCsvTime(fields[timeColumn]) : undefined,
+      heading: heading !== undefined ? ((heading % 360) + 360) % 360 : undefined,
+    });
+  }
+
+  return points;
+}
+
+// Readers for each track file format
+const TRACK_PARSERS: Record<TrackFormat, (text: string) => TrackPoint[]> = {
+  gpx: parseGpx,
+  kml: parseKml,
+  geojson: parseGeoJson,
+  csv: parseCsv,
+};
+
+/**
+ * Parse a flown track from a GPX, KML, GeoJSON or ADS-B CSV file
+ * @param format File format (default: detected from the contents)
+ * @returns The cleaned-up track, or an error message
+ */
+export function parseFlightTrack(
+  text: string,
+  format: TrackFormat | null = detectTrackFormat(text)
+): { track: FlightTrack } | { error: string } {
+  if (!format) {
+    return { error: 'Unrecognized track file: expected GPX, KML, GeoJSON or CSV' };
+  }
+
+  let raw: TrackPoint[];
+  try {
+    raw = TRACK_PARSERS[format](text);
+  } catch {
+    return { error: `Could not read the ${format.toUpperCase()} track` };
+  }
+
+  if (raw.some((point) =>
+    !Number.isFinite(point.lat) || !Number.isFinite(point.lng) ||
+    Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180
+  )) {
+    return { error: 'Track contains invalid coordinates' };
+  }
+  if (raw.length > MAX_TRACK_POINTS) {
+    return { error: `Track has too many points (maximum ${MAX_TRACK_POINTS})` };
+  }
+
+  // Partial timestamps cannot place the gaps in time: use them all or none
+  const timed = raw.length > 0 && raw.every((point) => point.time);
+  if (!timed) raw.forEach((point) => delete point.time);
+  if (timed && raw.some((point, i) => i > 0 && point.time! < raw[i - 1].time!)) {
+    return { error: 'Track timestamps must be in flight order' };
+  }
+
+  // Drop repeated fixes (e.g. parked at the gate) so every segment has a direction
+  const points = raw.filter((point, i) =>
+    i === 0 || point.lat !== raw[i - 1].lat || point.lng !== raw[i - 1].lng
+  );
+  if (points.length < 2) {
+    return { error: 'Track needs at least two distinct points' };
+  }
+  // A timed track is flown over its timestamps, so they must cover some time
+  if (timed && points[points.length - 1].time!.getTime() <= points[0].time!.getTime()) {
+    return { error: 'Track timestamps span no time' };
+  }
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    distances.push(distances[i - 1] + haversineDistance(prev.lat, prev.lng, points[i].lat, points[i].lng));
+  }
+
+  return {
+    track: {
+      format,
+      points,
+      distances,
+      distance: distances[distances.length - 1],
+      timed,
+      // Ground-clamped exports carry zero altitudes throughout
+      hasAltitude: points.every((point) => point.altitude !== undefined) &&
+        points.some((point) => point.altitude! > 0),
+      hasHeading: points.every((point) => point.heading !== undefined),
+      altitudeReference: 'seaLevel',
+    },
+  };
+}
+
+/**
+ * Measure a track's altitudes from the ground instead of sea level, as the
+ * horizon dip and landmark visibility need. The ground is the elevation of the
+ * nearer airport along the track, so fixes on the runway or taxiing come out
+ * at zero (lower readings clamp to it).
+ * @param departureElevation Meters above sea level at the first end
+ * @param arrivalElevation Meters above sea level at the last end
+ * @returns The track with altitudes above ground; unchanged when already so
+ */
+export function toHeightAboveGround(
+  track: FlightTrack,
+  departureElevation: number,
+  arrivalElevation: number
+): FlightTrack {
+  if (track.altitudeReference === 'ground') return track;
+
+  return {
+    ...track,
+    points: track.points.map((point, i) => {
+      if (point.altitude === undefined) return point;
+      const ground = track.distances[i] <= track.distance / 2 ? departureElevation : arrivalElevation;
+      return { ...point, altitude: Math.max(0, point.altitude - ground) };
+    }),
+    altitudeReference: 'ground',
+  };
+}
+
+/**
+ * Interpolate between two consecutive track points
+ */
+function interpolateSegment(
+  track: FlightTrack,
+  index: number,
+  fraction: number
+): { lat: number; lng: number; bearing: number; altitude?: number } {
+  const start = track.points[index];
+  const end = track.points[index + 1];
+  const point = interpolateGreatCircle(start.lat, start.lng, end.lat, end.lng, fraction);
+  const altitude = track.hasAltitude
+    ? start.altitude! + (end.altitude! - start.altitude!) * fraction
+    : undefined;
+
+  // Recorded headings win over the direction between fixes; turn the short way round
+  if (track.hasHeading) {
+    const turn = ((end.heading! - start.heading! + 540) % 360) - 180;
+    const bearing = (start.heading! + turn * fraction + 360) % 360;
+    return { lat: point.lat, lng: point.lng, bearing, altitude };
+  }
+
+  return { ...point, altitude };
+}
+
+/**
+ * Position along a track a given distance from its first point
+ * @param distance Kilometers flown, clamped to the track
+ * @returns Latitude, longitude, forward bearing and, when the track has them, altitude
+ */
+export function getTrackPointAtDistance(
+  track: FlightTrack,
+  distance: number
+): { lat: number; lng: number; bearing: number; altitude?: number } {
+  const target = Math.max(0, Math.min(track.distance, distance));
+  const { distances } = track;
+
+  // Binary search for the segment containing the target distance
+  let low = 0;
+  let high = distances.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (distances[mid] <= target) low = mid;
+    else high = mid - 1;
+  }
+
+  const length = distances[low + 1] - distances[low];
+  return interpolateSegment(track, low, length > 0 ? (target - distances[low]) / length : 0);
+}
+
+/**
+ * Position along a timed track at an instant, clamped to its first and last fixes
+ * @returns Latitude, longitude, forward bearing and, when the track has them, altitude
+ */
+export function getTrackPointAtTime(
+  track: FlightTrack,
+  time: Date
+): { lat: number; lng: number; bearing: number; altitude?: number } {
+  const { points } = track;
+  const target = time.getTime();
+
+  let low = 0;
+  let high = points.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid].time!.getTime() <= target) low = mid;
+    else high = mid - 1;
+  }
+
+  const startMs = points[low].time!.getTime();
+  const span = points[low + 1].time!.getTime() - startMs;
+  const fraction = span > 0 ? Math.max(0, Math.min(1, (target - startMs) / span)) : 0;
+  return interpolateSegment(track, low, fraction);
+}
+
+/**
+ * Thin a track to at most a given number of points for drawing, keeping both ends
+ * @returns Array of [longitude, latitude] coordinate pairs
+ */
+export function getTrackPath(track: FlightTrack, maxPoints: number = 500): [number, number][] {
+  const stride = Math.max(1, Math.ceil(track.points.length / maxPoints));
+  const path: [number, number][] = [];
+  for (let i = 0; i < track.points.length; i += stride) {
+    path.push([track.points[i].lng, track.points[i].lat]);
+  }
+  const last = track.points[track.points.length - 1];
+  if ((track.points.length - 1) % stride !== 0) path.push([last.lng, last.lat]);
+  return path;
+}
@@ -0,0 +1,147 @@
+// Meteorological seasons, named by their months
+export type WindSeason = 'DJF' | 'MAM' | 'JJA' | 'SON';
+
+// Latitudes (degrees) of the rows in ZONAL_WIND_TABLE
+const TABLE_LATITUDES = [-80, -70, -60, -50, -40, -30, -20, -10, 0, 10, 20, 30, 40, 50, 60, 70, 80];
+
+/**
+ * Climatological zonal-mean wind near cruise level (~250 hPa), in km/h,
+ * positive from the west. Rounded from long-term reanalysis means; the
+ * subtropical jets peak around 30-40° in each hemisphere's winter.
+ */
+const ZONAL_WIND_TABLE: Record<WindSeason, number[]> = {
+  DJF: [10, 25, 45, 70, 85, 70, 20, -10, -15, -10, 40, 120, 115, 90, 55, 25, 10],
+  MAM: [10, 30, 55, 80, 95, 80, 35, -5, -15, -5, 30, 95, 100, 80, 50, 25, 10],
+  JJA: [15, 40, 70, 95, 110, 120, 60, 0, -20, -20, 0, 40, 75, 65, 40, 20, 10],
+  SON: [10, 35, 60, 85, 100, 90, 40, -5, -15, -10, 15, 70, 95, 70, 40, 20, 10],
+};
+
+/**
+ * Meteorological season of a date (calendar months, same for both hemispheres)
+ */
+export function getWindSeason(date: Date): WindSeason {
+  const month = date.getUTCMonth(); // 0 = January
+  if (month === 11 || month <= 1) return 'DJF';
+  if (month <= 4) return 'MAM';
+  if (month <= 7) return 'JJA';
+  return 'SON';
+}
+
+/**
+ * Climatological west-to-east wind at cruise level
+ * @returns Wind speed in km/h, positive when blowing towards the east
+ */
+export function getZonalWind(lat: number, season: WindSeason): number {
+  const row = ZONAL_WIND_TABLE[season];
+  const clamped = Math.max(TABLE_LATITUDES[0], Math.min(TABLE_LATITUDES[TABLE_LATITUDES.length - 1], lat));
+  const index = Math.min(TABLE_LATITUDES.length - 2, Math.floor((clamped - TABLE_LATITUDES[0]) / 10));
+  const fraction = (clamped - TABLE_LATITUDES[index]) / 10;
+  return row[index] + (row[index + 1] - row[index]) * fraction;
+}
+
+/**
+ * Along-track component of the climatological wind
+ * @param bearing Track in degrees (0° = North, 90° = East)
+ * @returns km/h, positive for a tailwind
+ */
+export function getAlongTrackWind(lat: number, bearing: number, season: WindSeason): number {
+  return getZonalWind(lat, season) * Math.sin((bearing * Math.PI) / 180);
+}
+
+// Prevailing surface wind of each belt, as the direction it blows from in
+// degrees, by the latitude (degrees) the belt reaches up to, south to north
+const SURFACE_WIND_BELTS: { maxLat: number; from: number }[] = [
+  { maxLat: -60, from: 135 }, // polar easterlies
+  { maxLat: -30, from: 300 }, // westerlies
+  { maxLat: 0, from: 120 }, // southeast trades
+  { maxLat: 30, from: 60 }, // northeast trades
+  { maxLat: 60, from: 240 }, // westerlies
+  { maxLat: 90, from: 45 }, // polar easterlies
+];
+
+/**
+ * Prevailing surface wind direction from the global wind belts: trade winds
+ * in the tropics, westerlies in mid-latitudes, easterlies near the poles.
+ * Local terrain and weather often differ; this only stands in for a forecast.
+ * @returns Degrees the wind blows from
+ */
+export function getPrevailingSurfaceWind(lat: number): number {
+  return (SURFACE_WIND_BELTS.find((belt) => lat <= belt.maxLat) ?? SURFACE_WIND_BELTS[SURFACE_WIND_BELTS.length - 1]).from;
+}
+
+// Wind at cruise level: the bundled seasonal climatology, or one uniform wind
+// for the whole flight, given like a forecast (direction it blows from)
+export type WindField =
+  | { source: 'climatology' }
+  | { source: 'uniform'; direction: number; speed: number }; // degrees from, km/h
+
+// Wind as a vector, km/h towards the east (u) and towards the north (v)
+export interface WindVector {
+  u: number;
+  v: number;
+}
+
+/**
+ * Wind of a field at a place and time
+ */
+export function getWindVector(field: WindField, lat: number, time: Date): WindVector {
+  if (field.source === 'climatology') {
+    return { u: getZonalWind(lat, getWindSeason(time)), v: 0 };
+  }
+  const from = (field.direction * Math.PI) / 180;
+  return { u: -field.speed * Math.sin(from), v: -field.speed * Math.cos(from) };
+}
+
+/**
+ * Solve the wind triangle: the heading that holds a course against the wind
+ * @param course Track over the ground in degrees (0° = North, 90° = East)
+ * @param trueAirspeed km/h
+ * @returns Heading in degrees, the wind correction (crab) angle in degrees
+ * (positive = nose right of the course) and the ground speed in km/h
+ */
+export function calculateWindCorrection(
+  course: number,
+  trueAirspeed: number,
+  wind: WindVector
+): { heading: number; correctionAngle: number; groundSpeed: number } {
+  const courseRad = (course * Math.PI) / 180;
+  // Wind pushing the aircraft to the right of the course, and along it
+  const crosswind = wind.u * Math.cos(courseRad) - wind.v * Math.sin(courseRad);
+  const alongTrack = wind.u * Math.sin(courseRad) + wind.v * Math.cos(courseRad);
+
+  // A crosswind stronger than the airspeed cannot be held; crab as far as possible
+  const ratio = Math.max(-1, Math.min(1, -crosswind / trueAirspeed));
+  const correction = Math.asin(ratio);
+  const correctionAngle = (correction * 180) / Math.PI;
+
+  return {
+    heading: (course + correctionAngle + 360) % 360,
+    correctionAngle,
+    groundSpeed: trueAirspeed * Math.cos(correction) + alongTrack,
+  };
+}
+
+/**
+ * Read a `wind` query parameter: `climatology`, `none`, or a uniform wind as
+ * `<direction>@<speed>` (degrees it blows from, km/h), e.g. `270@150`
+ * @returns The field, null for `none`, or undefined when the value is invalid
+ */
+export function parseWindParam(value: string): WindField | null | undefined {
+  if (value === 'climatology') return { source: 'climatology' };
+  if (value === 'none') return null;
+
+  const match = value.match(/^(-?\d+(?:\.\d+)?)@(\d+(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  const direction = Number(match[1]);
+  const speed = Number(match[2]);
+  if (direction < 0 || direction > 360 || speed > 500) return undefined;
+  return { source: 'uniform', direction: direction % 360, speed };
+}
+
+/**
+ * Inverse of parseWindParam
+ */
+export function formatWindParam(field: WindField | null): string {
+  if (!field) return 'none';
+  return field.source === 'climatology' ? 'climatology' : `${field.direction}@${field.speed}`;
+}